@@ -0,0 +1,79 @@
+// server/relay.mjs
+//
+// Relay for real-time collaboration (src/sync). Clients join a room per board and send stamped item
+// ops and presence; the relay forwards both to the room's other clients. It also keeps the winning op
+// per item id, so a client joining later gets the room's current state straight away.
+//
+//   npm run relay            (PORT=8787 by default)
+//   open the app with ?sync=ws://localhost:8787
+
+import { pathToFileURL } from "node:url";
+import { WebSocketServer } from "ws";
+
+const PORT = Number(process.env.PORT ?? 8787);
+
+/** Same order as compareStamps in src/sync/crdt.ts. */
+const compareStamps = (a, b) => a.t - b.t || (a.c < b.c ? -1 : a.c > b.c ? 1 : 0);
+
+/** Starts a relay on `port` (0 for any free one) and returns its server. Each relay has its own rooms. */
+export function startRelay(port) {
+    /** room → { clients: Map<socket, clientId>, items: Map<item id, op> } */
+    const rooms = new Map();
+    const wss = new WebSocketServer({ port });
+    wss.on("connection", (socket) => onConnection(rooms, socket));
+    return wss;
+}
+
+function onConnection(rooms, socket) {
+    let room = null;
+
+    const others = () => [...room.clients.keys()].filter((s) => s !== socket && s.readyState === s.OPEN);
+    const broadcast = (msg) => {
+        const json = JSON.stringify(msg);
+        for (const s of others()) s.send(json);
+    };
+
+    socket.on("message", (raw) => {
+        let msg;
+        try {
+            msg = JSON.parse(raw.toString());
+        } catch {
+            return;
+        }
+
+        if (msg.type === "hello") {
+            if (room) return;
+            room = rooms.get(msg.room) ?? { clients: new Map(), items: new Map() };
+            rooms.set(msg.room, room);
+            room.clients.set(socket, String(msg.clientId));
+            socket.send(JSON.stringify({ type: "ops", ops: [...room.items.values()] }));
+            return;
+        }
+        if (!room) return;
+
+        if (msg.type === "ops" && Array.isArray(msg.ops)) {
+            for (const op of msg.ops) {
+                const id = op.type === "put" ? op.item?.id : op.id;
+                if (typeof id !== "string" || !op.stamp) continue;
+                const known = room.items.get(id);
+                if (!known || compareStamps(op.stamp, known.stamp) > 0) room.items.set(id, op);
+            }
+            broadcast(msg);
+        } else if (msg.type === "presence") {
+            broadcast({ type: "presence", clientId: room.clients.get(socket), presence: msg.presence });
+        }
+    });
+
+    socket.on("close", () => {
+        if (!room) return;
+        const clientId = room.clients.get(socket);
+        broadcast({ type: "leave", clientId });
+        room.clients.delete(socket);
+        // Rooms keep their items while empty, so the board survives everyone reloading at once
+    });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+    const wss = startRelay(PORT);
+    wss.on("listening", () => console.log(`Relay listening on ws://localhost:${wss.address().port}`));
+}
@@ -0,0 +1,100 @@
+// BoardRegistry.ts
+//
+// The list of boards. Each board's items live in a DrawingDB of their own; this small database only
+// records which boards exist, what they are called, their background seed and where the camera was.
+
+import Dexie, { Table } from "dexie";
+import { CameraTarget } from "../canvas/types";
+import { DrawingDB } from "./DrawingDB";
+import { DRAWING_TABLES } from "./migrations";
+
+export type BoardInfo = {
+    id: string;
+    name: string;
+    /** Name of the board's DrawingDB. */
+    dbName: string;
+    /** Seed of the fractal landmarks in the background. */
+    seed: number;
+    /** Where the camera was when the board was last left, or null for the default view. */
+    camera: CameraTarget | null;
+    createdAt: number;
+};
+
+/** The board that existed before there were boards keeps the original database and seed. */
+const DEFAULT_BOARD: BoardInfo = { id: "canvas", name: "My board", dbName: "canvas", seed: 12345, camera: null, createdAt: 0 };
+
+/** localStorage key of the board to open on load. */
+const ACTIVE_BOARD_KEY = "activeBoard";
+
+const randomSeed = () => Math.floor(Math.random() * 0x7fffffff);
+
+export class BoardRegistry extends Dexie {
+    boards!: Table<BoardInfo, string>;
+
+    constructor() {
+        super("boards");
+        this.version(1).stores({ boards: "id, name, createdAt" });
+    }
+
+    /** All boards, oldest first. Creates the default board on first use. */
+    async list(): Promise<BoardInfo[]> {
+        const boards = await this.boards.orderBy("createdAt").toArray();
+        if (boards.length > 0) return boards;
+        await this.boards.put(DEFAULT_BOARD);
+        return [DEFAULT_BOARD];
+    }
+
+    /** The board opened last, or the first one. */
+    async getActive(): Promise<BoardInfo> {
+        const boards = await this.list();
+        const id = localStorage.getItem(ACTIVE_BOARD_KEY);
+        return boards.find((b) => b.id === id) ?? boards[0];
+    }
+
+    setActive(id: string): void {
+        localStorage.setItem(ACTIVE_BOARD_KEY, id);
+    }
+
+    async create(name: string): Promise<BoardInfo> {
+        const id = crypto.randomUUID();
+        const board: BoardInfo = { id, name, dbName: `canvas-${id}`, seed: randomSeed(), camera: null, createdAt: Date.now() };
+        await this.boards.put(board);
+        return board;
+    }
+
+    async rename(id: string, name: string): Promise<void> {
+        await this.boards.update(id, { name });
+    }
+
+    async saveCamera(id: string, camera: CameraTarget): Promise<void> {
+        await this.boards.update(id, { camera });
+    }
+
+    /** A new board with a copy of every item and bookmark, the same background and the same camera. */
+    async duplicate(id: string, name: string): Promise<BoardInfo> {
+        const source = await this.boards.get(id);
+        if (!source) throw new Error(`No board with id ${id}`);
+        const copy: BoardInfo = { ...(await this.create(name)), seed: source.seed, camera: source.camera };
+        await this.boards.put(copy);
+
+        const from = new DrawingDB(source.dbName);
+        const to = new DrawingDB(copy.dbName);
+        try {
+            for (const table of DRAWING_TABLES) {
+                await to.table(table).bulkAdd(await from.table(table).toArray());
+            }
+        } finally {
+            from.close();
+            to.close();
+        }
+        return copy;
+    }
+
+    /** Deletes a board and its database. The caller switches away from it first if it is open. */
+    async remove(id: string): Promise<void> {
+        const board = await this.boards.get(id);
+        if (!board) return;
+        await new DrawingDB(board.dbName).clearDB();
+        await this.boards.delete(id);
+    }
+}
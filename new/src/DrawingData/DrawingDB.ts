@@ -1,21 +1,66 @@
 // DrawingDB.ts
 
 import Dexie, { Table } from "dexie";
-import { StrokeProperties, TextCardProperties } from "../canvas/types";
+import { CameraTarget, ConnectorProperties, StrokeProperties, TextCardProperties, WormholeCardProperties } from "../canvas/types";
+import { migrateCardContent, migrateItem, V3_ITEM_TABLES } from "./migrations";
 
-// The keys are tables, with arrays of the rows.
-export type DrawingDataSchema = { strokes: StrokeProperties[]; textCards: TextCardProperties[] };
+// The keys are tables, with arrays of the rows, plus the format version of an export.
+export type DrawingDataSchema = {
+    formatVersion: number;
+    strokes: StrokeProperties[];
+    textCards: TextCardProperties[];
+    wormholes: WormholeCardProperties[];
+    connectors: ConnectorProperties[];
+    bookmarks: Bookmark[];
+};
+
+/** A named camera position on the board, listed in `order`. */
+export type Bookmark = {
+    id: string;
+    name: string;
+    camera: CameraTarget;
+    order: number;
+    createdAt: number;
+};
+
+/** Primary key, then secondary indexes on item type, creation time and bbox position. */
+const ITEM_INDEXES = "id, data.type, createdAt, x, y";
 
 export class DrawingDB extends Dexie {
     strokes!: Table<StrokeProperties, string>;
     textCards!: Table<TextCardProperties, string>;
-    constructor() {
-        super("canvas");
+    wormholes!: Table<WormholeCardProperties, string>;
+    connectors!: Table<ConnectorProperties, string>;
+    bookmarks!: Table<Bookmark, string>;
+    /** @param name Database name: each board has its own (see BoardRegistry). */
+    constructor(name = "canvas") {
+        super(name);
         this.version(1).stores({ strokes: "id", textCards: "id" }); // id is primary key
+        this.version(2).stores({ strokes: "id", textCards: "id", wormholes: "id" });
+        // Keep in step with DRAWING_FORMAT_VERSION: each schema version has a matching JSON upgrade in migrations.ts
+        this.version(3)
+            .stores({ strokes: ITEM_INDEXES, textCards: ITEM_INDEXES, wormholes: ITEM_INDEXES })
+            .upgrade(async (tx) => {
+                for (const table of V3_ITEM_TABLES) {
+                    await tx
+                        .table(table)
+                        .toCollection()
+                        .modify((item) => {
+                            Object.assign(item, migrateItem(item));
+                        });
+                }
+            });
+        this.version(4)
+            .stores({ strokes: ITEM_INDEXES, textCards: ITEM_INDEXES, wormholes: ITEM_INDEXES })
+            .upgrade(async (tx) => {
+                await tx.table("textCards").toCollection().modify(migrateCardContent);
+            });
+        this.version(5).stores({ strokes: ITEM_INDEXES, textCards: ITEM_INDEXES, wormholes: ITEM_INDEXES, connectors: ITEM_INDEXES });
+        this.version(6).stores({ strokes: ITEM_INDEXES, textCards: ITEM_INDEXES, wormholes: ITEM_INDEXES, connectors: ITEM_INDEXES, bookmarks: "id, order" });
     }
 
     public async clearDB(): Promise<void> {
-        await Dexie.delete("canvas");
-        await Dexie.delete("textCards");
+        // Text cards live in a table of this database, not a database of their own
+        await this.delete();
     }
 }
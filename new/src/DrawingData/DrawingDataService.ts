@@ -1,6 +1,33 @@
 // DrawingDataService.ts
 
 import { DrawingDB, DrawingDataSchema } from "./DrawingDB";
+import { DRAWING_FORMAT_VERSION, ITEM_TABLES, ItemTable, migrateDrawingData } from "./migrations";
+import { BinaryExportOptions, decodeDrawingFile, encodeDrawing } from "./binaryFormat";
+import { RejectedRecord, SanitizedRecord } from "./validation";
+import { DeepPoint, deepSub, itemsCenter, translateItem, translateTarget } from "../canvas/deepCoords";
+import { ConnectorProperties, QuadItemProperties } from "../canvas/types";
+
+export type ImportOptions = {
+    /** Replace wipes the drawing first; merge adds the file's items to it. */
+    mode: "replace" | "merge";
+    /** Merge only: what to do with an imported item whose id is already in the drawing. Defaults to "rekey". */
+    onConflict?: "skip" | "overwrite" | "rekey";
+    /** Merge only: moves the imported content as a whole so the center of its bbox lands here, e.g. under the viewport. */
+    placeAt?: DeepPoint;
+};
+
+/** What an import did, per item. */
+export type ImportReport = {
+    added: number;
+    overwritten: number;
+    rekeyed: number;
+    skipped: number;
+    /** Bookmarks imported. Merged ones are listed after the drawing's own, with new ids where theirs are taken. */
+    bookmarks: number;
+    rejected: RejectedRecord[];
+    /** Imported cards whose content had unsafe markup or links removed. */
+    sanitized: SanitizedRecord[];
+};
 
 export class DrawingDataService {
     private db: DrawingDB;
@@ -13,44 +40,128 @@ export class DrawingDataService {
      * Exports all tables from the database into a JSON string.
      */
     public async exportDrawingToJson(): Promise<string> {
-        const exportData: { [tableName: string]: any[] } = {};
+        const exportData: { [tableName: string]: any } = { formatVersion: DRAWING_FORMAT_VERSION };
         for (const table of this.db.tables) {
             exportData[table.name] = await table.toArray();
         }
         return JSON.stringify(exportData, null, 2);
     }
 
+    /** Exports all tables in the compact binary format (see binaryFormat.ts). */
+    public async exportDrawingToBinary(options: BinaryExportOptions = {}): Promise<Uint8Array> {
+        const tables: { [tableName: string]: any[] } = {};
+        for (const table of this.db.tables) {
+            tables[table.name] = await table.toArray();
+        }
+        return encodeDrawing(tables, options);
+    }
+
     /**
-     * Replaces database content from a JSON string within a single transaction.
+     * Writes the items of a JSON export to the database within a single transaction.
+     * Files from older versions of the app are migrated to the current format first, and records that
+     * fail validation are skipped and listed in the report rather than failing the import. Card content
+     * is sanitized, and what was removed is listed too.
      * @param jsonString The string content of a previously exported JSON file.
-     * @returns The parsed data that was successfully imported.
      */
-    public async importFromJson(jsonString: string): Promise<DrawingDataSchema> {
+    public async importFromJson(jsonString: string, options: ImportOptions = { mode: "replace" }): Promise<ImportReport> {
+        return this.importData(() => JSON.parse(jsonString), options);
+    }
+
+    /** Like importFromJson, for the bytes of an exported file in any format: JSON or binary, gzipped or not. */
+    public async importFromFile(bytes: Uint8Array, options: ImportOptions = { mode: "replace" }): Promise<ImportReport> {
+        return this.importData(() => decodeDrawingFile(bytes), options);
+    }
+
+    private async importData(parse: () => unknown, options: ImportOptions): Promise<ImportReport> {
         let parsedData: DrawingDataSchema;
+        const report: ImportReport = { added: 0, overwritten: 0, rekeyed: 0, skipped: 0, bookmarks: 0, rejected: [], sanitized: [] };
 
         try {
-            parsedData = JSON.parse(jsonString);
-            // Add validation for the new cards table
-            if (!parsedData || !Array.isArray(parsedData.strokes) || !Array.isArray(parsedData.textCards)) {
-                throw new Error("Invalid format: JSON must have 'strokes' and 'cards' arrays.");
-            }
+            const { data, rejected, sanitized } = migrateDrawingData(await parse());
+            parsedData = data;
+            report.rejected = rejected;
+            report.sanitized = sanitized;
         } catch (e: any) {
-            throw new Error(`JSON parsing or validation failed: ${e.message}`);
+            throw new Error(`Parsing or validation failed: ${e.message}`);
         }
 
         await this.db.transaction("rw", this.db.tables, async () => {
-            // This generic loop already handles clearing all tables
-            for (const tableName in parsedData) {
-                if (this.db.table(tableName)) {
-                    // Check if table exists
-                    await this.db.table(tableName).clear();
+            if (options.mode === "replace") {
+                for (const table of this.db.tables) {
+                    await table.clear();
+                }
+                for (const name of ITEM_TABLES) {
+                    await this.db.table(name).bulkAdd(parsedData[name]);
+                    report.added += parsedData[name].length;
                 }
+                await this.db.bookmarks.bulkAdd(parsedData.bookmarks);
+                report.bookmarks = parsedData.bookmarks.length;
+                return;
             }
-            // Bulk-add data to each table
-            await this.db.strokes.bulkAdd(parsedData.strokes);
-            await this.db.textCards.bulkAdd(parsedData.textCards);
+
+            await this.mergeItems(parsedData, options, report);
         });
 
-        return parsedData;
+        return report;
+    }
+
+    private async mergeItems(parsedData: DrawingDataSchema, options: ImportOptions, report: ImportReport): Promise<void> {
+        const onConflict = options.onConflict ?? "rekey";
+
+        // Ids are unique across tables: views key their caches and selections by id alone
+        const existing = new Map<string, ItemTable>();
+        for (const name of ITEM_TABLES) {
+            for (const id of await this.db.table(name).toCollection().primaryKeys()) existing.set(id as string, name);
+        }
+
+        const center = options.placeAt && itemsCenter(ITEM_TABLES.flatMap((name): QuadItemProperties[] => parsedData[name]));
+        const offset = options.placeAt && center ? deepSub(options.placeAt, center) : null;
+        // New ids of rekeyed items, for the connectors that refer to them (imported after them)
+        const rekeyed = new Map<string, string>();
+
+        for (const name of ITEM_TABLES) {
+            const rows: QuadItemProperties[] = [];
+            for (const item of parsedData[name] as QuadItemProperties[]) {
+                let row = offset ? translateItem(item, offset) : item;
+                if (name === "connectors") {
+                    const { data } = row as ConnectorProperties;
+                    row = { ...row, data: { ...data, from: rekeyed.get(data.from) ?? data.from, to: rekeyed.get(data.to) ?? data.to } } as ConnectorProperties;
+                }
+                const clash = existing.get(row.id);
+                if (clash) {
+                    if (onConflict === "skip") {
+                        report.skipped++;
+                        continue;
+                    }
+                    if (onConflict === "rekey") {
+                        rekeyed.set(row.id, crypto.randomUUID());
+                        row = { ...row, id: rekeyed.get(row.id)! };
+                        report.rekeyed++;
+                    } else {
+                        await this.db.table(clash).delete(row.id);
+                        report.overwritten++;
+                    }
+                } else {
+                    report.added++;
+                }
+                existing.set(row.id, name);
+                rows.push(row);
+            }
+            await this.db.table(name).bulkPut(rows);
+        }
+
+        // Bookmarks move with the items they look at
+        const taken = new Set(await this.db.bookmarks.toCollection().primaryKeys());
+        const last = await this.db.bookmarks.orderBy("order").last();
+        const bookmarks = [...parsedData.bookmarks]
+            .sort((a, b) => a.order - b.order)
+            .map((bookmark, i) => ({
+                ...bookmark,
+                id: taken.has(bookmark.id) ? crypto.randomUUID() : bookmark.id,
+                order: (last?.order ?? -1) + 1 + i,
+                camera: offset ? translateTarget(bookmark.camera, offset) : bookmark.camera,
+            }));
+        await this.db.bookmarks.bulkAdd(bookmarks);
+        report.bookmarks = bookmarks.length;
     }
 }
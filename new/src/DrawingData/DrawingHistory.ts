@@ -0,0 +1,104 @@
+// DrawingHistory.ts
+
+/**
+ * A reversible mutation of the drawing. Both directions must restore the quadtree
+ * and the database, so they are async.
+ */
+export interface HistoryCommand {
+    label: string;
+    undo(): Promise<void>;
+    redo(): Promise<void>;
+}
+
+type HistoryEntry = {
+    command: HistoryCommand;
+    /** Entries pushed with the same open group key are merged into one undo step. */
+    groupKey?: string;
+};
+
+export class DrawingHistory {
+    private undoStack: HistoryEntry[] = [];
+    private redoStack: HistoryEntry[] = [];
+    /** The group the top of the undo stack still accepts merges for. */
+    private openGroup: string | null = null;
+    /** Undo / redo run one at a time so DB writes never interleave. */
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(private limit = 200) {}
+
+    /**
+     * Records a command that has already been applied.
+     * @param groupKey Consecutive pushes with the same key collapse into one step
+     * that undoes them newest-first and redoes them oldest-first.
+     */
+    push(command: HistoryCommand, groupKey?: string): void {
+        this.redoStack = [];
+        const top = this.undoStack[this.undoStack.length - 1];
+
+        if (groupKey && top && top.groupKey === groupKey && this.openGroup === groupKey) {
+            const prev = top.command;
+            top.command = {
+                label: prev.label,
+                undo: async () => {
+                    await command.undo();
+                    await prev.undo();
+                },
+                redo: async () => {
+                    await prev.redo();
+                    await command.redo();
+                },
+            };
+            return;
+        }
+
+        const entry: HistoryEntry = { command };
+        if (groupKey) entry.groupKey = groupKey;
+        this.undoStack.push(entry);
+        this.openGroup = groupKey ?? null;
+        if (this.undoStack.length > this.limit) this.undoStack.shift();
+    }
+
+    /** Closes the current group so the next push starts a new undo step. */
+    endGroup(groupKey?: string): void {
+        if (groupKey === undefined || this.openGroup === groupKey) this.openGroup = null;
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    undo(): Promise<void> {
+        return this.enqueue(async () => {
+            const entry = this.undoStack.pop();
+            if (!entry) return;
+            this.openGroup = null;
+            await entry.command.undo();
+            this.redoStack.push(entry);
+        });
+    }
+
+    redo(): Promise<void> {
+        return this.enqueue(async () => {
+            const entry = this.redoStack.pop();
+            if (!entry) return;
+            this.openGroup = null;
+            await entry.command.redo();
+            this.undoStack.push(entry);
+        });
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.openGroup = null;
+    }
+
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        this.queue = this.queue.then(task).catch((err) => console.error("DrawingHistory: command failed", err));
+        return this.queue;
+    }
+}
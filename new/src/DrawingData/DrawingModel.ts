@@ -2,9 +2,51 @@
 import { Quadtree, Rectangle } from "@timohausmann/quadtree-ts";
 import { createStore, StoreApi } from "zustand/vanilla";
 import { subscribeWithSelector } from "zustand/middleware";
-import { StrokeData, BBox, StrokeProperties, QuadItem, getQuadItem, TextCardProperties, isStroke, isTextCard, TextCardData } from "../canvas/types";
-import { DrawingDB } from "./DrawingDB";
-import { DrawingDataService } from "./DrawingDataService";
+import {
+    StrokeData,
+    BBox,
+    StrokeProperties,
+    QuadItem,
+    getQuadItem,
+    TextCardProperties,
+    isStroke,
+    isTextCard,
+    TextCardData,
+    isWormholeCard,
+    WormholeCardData,
+    WormholeCardProperties,
+    QuadItemProperties,
+    CameraTarget,
+    ConnectorData,
+    ConnectorProperties,
+    isConnector,
+} from "../canvas/types";
+import { Bookmark, DrawingDB } from "./DrawingDB";
+import { DrawingDataService, ImportOptions, ImportReport } from "./DrawingDataService";
+import { BinaryExportOptions } from "./binaryFormat";
+import { BoardInfo } from "./BoardRegistry";
+import { DRAWING_FORMAT_VERSION, ITEM_TABLES, ItemTable, itemTable } from "./migrations";
+import { validateRecord } from "./validation";
+import { DrawingHistory } from "./DrawingHistory";
+import { CardSearchIndex, SearchResult } from "./searchIndex";
+import { sanitizeCardContent } from "../Notecard/sanitize";
+import { ItemTransform, pointsBBox, transformPoint } from "../canvas/geometry";
+import { scaleZoom } from "../canvas/zoom";
+import { maxStrokeRadius } from "../canvas/strokeOutline";
+import { quantizePoints } from "../canvas/strokePipeline";
+import { ConnectorRoute, routeBBox, routeConnector } from "../canvas/connector";
+import {
+    Anchor,
+    convertPoint,
+    DeepPoint,
+    deepRescale,
+    deepToWorld,
+    Frame,
+    frameBBoxToWorld,
+    fromFrame,
+    itemFrame,
+    toAnchor,
+} from "../canvas/deepCoords";
 
 // ─── 1.  Zustand Store Definition ─────────────────────────────────────────────
 
@@ -14,6 +56,10 @@ type DrawingModelState = {
     /** A flag to indicate that the initial data has been loaded from the database. */
     initialized: boolean;
     textCards: { [id: string]: QuadItem<TextCardProperties> };
+    /** The open board. Views reset their caches, background and camera when it changes. */
+    board: BoardInfo;
+    /** The open board's bookmarks, in their listed order. */
+    bookmarks: Bookmark[];
 };
 
 type DrawingModelActions = {
@@ -21,17 +67,22 @@ type DrawingModelActions = {
     setInitialized: (value: boolean) => void;
     putCard: (card: QuadItem<TextCardProperties>) => void;
     deleteCard: (id: string) => void;
+    setCards: (cards: QuadItem<TextCardProperties>[]) => void;
+    setBoard: (board: BoardInfo) => void;
+    setBookmarks: (bookmarks: Bookmark[]) => void;
 };
 
 // This is the full type for our vanilla Zustand store
 type DrawingStore = StoreApi<DrawingModelState & DrawingModelActions>;
 
-const createDrawingModelStore = () => {
+const createDrawingModelStore = (board: BoardInfo) => {
     return createStore<DrawingModelState & DrawingModelActions>()(
         subscribeWithSelector((set) => ({
             revision: 0,
             initialized: false,
             textCards: {},
+            board,
+            bookmarks: [],
             // Internal action to notify subscribers of a change.
             incrementRevision: () => set((state) => ({ revision: state.revision + 1 })),
             // Internal action to signal that loading is complete.
@@ -47,36 +98,119 @@ const createDrawingModelStore = () => {
                     if (id in newCards) {
                         delete newCards[id];
                         state.incrementRevision();
-                        return newCards;
+                        return { textCards: newCards };
                     } else {
                         return state.textCards;
                     }
                 }),
+            // Swaps in a whole new set of cards, e.g. after an import
+            setCards: (cards: QuadItem<TextCardProperties>[]) =>
+                set((state) => {
+                    state.incrementRevision();
+                    return { textCards: Object.fromEntries(cards.map((c) => [c.id, c])) };
+                }),
+            setBoard: (board: BoardInfo) => set({ board }),
+            setBookmarks: (bookmarks: Bookmark[]) => set({ bookmarks: [...bookmarks].sort((a, b) => a.order - b.order) }),
         }))
     );
 };
 
+/** The part of a text card an edit can change, captured so the edit can be reversed. */
+type TextCardSnapshot = { data: TextCardData; bbox: BBox; anchor: Anchor | undefined };
+
+const snapshotCard = (card: QuadItem<TextCardProperties>): TextCardSnapshot => ({
+    data: structuredClone(card.data),
+    bbox: { x: card.x, y: card.y, width: card.width, height: card.height },
+    anchor: card.anchor,
+});
+
+/** Puts a snapshotted anchor back, including its absence. */
+const restoreAnchor = (item: { anchor?: Anchor }, anchor: Anchor | undefined) => {
+    if (anchor) item.anchor = anchor;
+    else delete item.anchor;
+};
+
+/** Items the model stores and can move, scale or delete as a group. */
+export type EditableItem = QuadItem<StrokeProperties | TextCardProperties | WormholeCardProperties>;
+
+/** Items the model stores: the editable ones and the connectors between them. */
+type StoredItem = EditableItem | QuadItem<ConnectorProperties>;
+
+/** A saved item written or deleted, as exchanged with other clients by the sync layer. */
+export type ItemChange = { type: "put"; table: ItemTable; item: QuadItemProperties } | { type: "delete"; table: ItemTable; id: string };
+
+type ItemSnapshot = { item: EditableItem; data: StrokeData | TextCardData | WormholeCardData; bbox: BBox; anchor: Anchor | undefined };
+
+const snapshotItem = (item: EditableItem): ItemSnapshot => ({
+    item,
+    data: structuredClone(item.data),
+    bbox: { x: item.x, y: item.y, width: item.width, height: item.height },
+    anchor: item.anchor,
+});
+
+/** Bounds of the quadtree, vast enough for any item created near the world origin. */
+const QT_BOUNDS: BBox = { x: -1e13, y: -1e13, width: 2e13, height: 2e13 };
+
 // ─── 2.  Drawing Model Class ──────────────────────────────────────────────────
 
 export class DrawingModel {
     /** The single source of truth for all stroke geometry, spatially indexed. */
     private tree: Quadtree<QuadItem>;
 
+    /** Saved items by id, for applying changes from other clients. */
+    private byId = new Map<string, QuadItem>();
+    /** Full-text index of card titles and content, updated wherever cards are written or removed. */
+    private searchIndex = new CardSearchIndex();
+    /** Connectors by the id of each item they connect, to re-route and delete them with it. */
+    private connectorsOf = new Map<string, Set<QuadItem<ConnectorProperties>>>();
+    /**
+     * The curve of every connector whose ends both exist. A connector whose end is gone (deleted on
+     * another client that did not delete it too) is an orphan: kept, but not drawn until the end is back.
+     */
+    private routes = new Map<string, ConnectorRoute>();
+    /** Listeners to changes made on this client, see onLocalChanges. */
+    private localChangeListeners = new Set<(changes: ItemChange[]) => void>();
+
     /** The database instance for persisting strokes. */
     private db: DrawingDB;
     private dataService: DrawingDataService;
 
+    /** Undo / redo stack. Every public mutation records a command here. */
+    readonly history: DrawingHistory;
+
     /** The Zustand store for state management and notifications. Views will subscribe to this. */
     public store: ReturnType<typeof createDrawingModelStore>;
 
-    constructor() {
+    /** Resolves once the first board's items are loaded (see init). */
+    readonly ready: Promise<void>;
+
+    /** @param board The board to open; see openBoard to switch to another one later. */
+    constructor(board: BoardInfo) {
         this.tree = this.initQuadtree();
-        this.db = new DrawingDB();
+        this.db = new DrawingDB(board.dbName);
         this.dataService = new DrawingDataService(this.db);
+        this.history = new DrawingHistory();
 
         // Create the vanilla Zustand store. This will be the heart of our observer pattern.
-        this.store = createDrawingModelStore();
-        this.init();
+        this.store = createDrawingModelStore(board);
+        this.ready = this.init();
+    }
+
+    get board(): BoardInfo {
+        return this.store.getState().board;
+    }
+
+    /**
+     * Switches to another board's database without reloading the page: the quadtree and cards are
+     * rebuilt from it, the history is dropped, and views reset themselves to the new board.
+     */
+    public async openBoard(board: BoardInfo): Promise<void> {
+        this.db.close();
+        this.db = new DrawingDB(board.dbName);
+        this.dataService = new DrawingDataService(this.db);
+        this.history.clear();
+        await this.loadItemsFromDB();
+        this.store.getState().setBoard(board);
     }
 
     /**
@@ -85,20 +219,11 @@ export class DrawingModel {
      */
     public async init(): Promise<void> {
         try {
-            const [allStrokes, allCards] = await Promise.all([
-                this.db.strokes.toArray(),
-                this.db.textCards.toArray(), // NEW
-            ]);
-
-            for (const s of allStrokes) {
-                this.tree.insert(getQuadItem(s));
-            }
-            for (const c of allCards) {
-                const item = getQuadItem(c);
-                this.tree.insert(item);
-                this.store.getState().putCard(item);
-            }
-            console.log(`DrawingModel: Initialized with ${allStrokes.length} strokes ` + `and ${allCards.length} text cards from DB.`);
+            const counts = await this.loadItemsFromDB();
+            console.log(
+                `DrawingModel: Initialized with ${counts.strokes} strokes, ` +
+                    `${counts.textCards} text cards, ${counts.wormholes} wormholes and ${counts.connectors} connectors from DB.`
+            );
         } catch (err) {
             console.error("DrawingModel: DB init failed", err);
         } finally {
@@ -110,37 +235,215 @@ export class DrawingModel {
     /**
      * Creates a new stroke, adds it to the quadtree, saves it to the database,
      * and notifies all subscribed views of the change.
-     * @param data The raw data for the new stroke (points, width, color).
+     * @param data The raw data for the new stroke (points, width, color), relative to `anchor` in its units.
+     * @param anchor Where the stroke was started, on the grid of the zoom it was drawn at.
+     */
+    public async addStroke(data: StrokeData, anchor: DeepPoint): Promise<void> {
+        const rect = this.createStrokeItem(data, toAnchor(anchor));
+
+        // Update state, persist and notify views; undoable once it is saved
+        await this.insertItem(rect);
+        this.history.push({
+            label: "add stroke",
+            undo: () => this.removeItem(rect),
+            redo: () => this.insertItem(rect),
+        });
+    }
+
+    /**
+     * Removes strokes and adds their replacements as a single undoable change.
+     * The eraser uses this both to delete whole strokes (no replacements) and to split them.
+     * Connectors attached to a removed stroke are removed with it.
+     * @param added Replacement stroke data, each relative to its own anchor.
+     * @param options.historyGroup Calls sharing a key (one eraser drag) become one undo step.
+     */
+    public async replaceStrokes(
+        removed: QuadItem<StrokeProperties>[],
+        added: { data: StrokeData; anchor: Anchor }[],
+        options: { historyGroup?: string } = {}
+    ): Promise<void> {
+        if (removed.length === 0 && added.length === 0) return;
+        const addedItems = added.map(({ data, anchor }) => this.createStrokeItem(data, anchor));
+        const removedItems = this.withConnectors(removed);
+
+        // One transaction each way, as in deleteStored, so a failed write leaves none of it in the DB
+        const apply = () =>
+            this.db
+                .transaction("rw", this.db.tables, () => Promise.all([...removedItems.map((s) => this.removeItem(s)), ...addedItems.map((s) => this.insertItem(s))]))
+                .then(() => {});
+        const revert = () =>
+            this.db
+                .transaction("rw", this.db.tables, () => Promise.all([...addedItems.map((s) => this.removeItem(s)), ...removedItems.map((s) => this.insertItem(s))]))
+                .then(() => {});
+
+        await apply();
+        this.history.push({ label: "erase", undo: revert, redo: apply }, options.historyGroup);
+    }
+
+    /**
+     * Moves and/or scales a group of strokes and cards as one undoable change, persisted in a single transaction.
+     * Each item's anchor is moved by the transform and its local geometry scaled about it: stroke points
+     * are rewritten (new arrays, so views redraw them); cards get a new bbox and a zoom adjusted by the
+     * same factor so their content scales with them.
+     * @param frame The frame the transform is expressed in.
+     */
+    public async transformItems(items: EditableItem[], t: ItemTransform, frame: Frame): Promise<void> {
+        if (items.length === 0) return;
+        const before = items.map(snapshotItem);
+
+        for (const item of items) {
+            const from = itemFrame(item);
+            const moved = transformPoint(convertPoint(from, frame, [0, 0]), t);
+            // The new anchor stays on the item's own grid, so its units do not change
+            const origin = deepRescale(fromFrame(frame, moved), from.exp);
+            item.anchor = toAnchor(origin);
+
+            if (isStroke(item)) {
+                // What rounding the anchor to the grid cut off goes back into the points
+                const [rx, ry] = convertPoint(frame, { origin, exp: from.exp }, moved);
+                const data = item.data;
+                data.pts = quantizePoints(data.pts.map(([x, y]) => [rx + x * t.scale, ry + y * t.scale]));
+                data.stroke = { ...data.stroke, width: data.stroke.width * t.scale };
+                Object.assign(item, this.strokeWorldBBox(data, item.anchor));
+            } else {
+                item.data.zoom = scaleZoom(item.data.zoom, 1 / t.scale);
+                const { x, y } = deepToWorld(origin);
+                Object.assign(item, { x, y, width: item.width * t.scale, height: item.height * t.scale });
+            }
+        }
+
+        const after = items.map(snapshotItem);
+        await this.writeItems(items);
+        this.history.push({
+            label: "transform",
+            undo: () => this.restoreItems(before),
+            redo: () => this.restoreItems(after),
+        });
+    }
+
+    /** Deletes a mixed group of strokes and cards, and the connectors attached to them, as one undoable change. */
+    public async deleteItems(items: EditableItem[]): Promise<void> {
+        await this.deleteStored(this.withConnectors(items), "delete");
+    }
+
+    /**
+     * Deletes items as one undoable change, in one transaction each way. Connectors must come after
+     * the items they connect, so an undo puts their ends back before routing them.
+     */
+    private async deleteStored(items: StoredItem[], label: string, historyGroup?: string): Promise<void> {
+        if (items.length === 0) return;
+        const removeAll = () => this.db.transaction("rw", this.db.tables, () => Promise.all(items.map((i) => this.removeItem(i)))).then(() => {});
+        const insertAll = () => this.db.transaction("rw", this.db.tables, () => Promise.all(items.map((i) => this.insertItem(i)))).then(() => {});
+
+        await removeAll();
+        this.history.push({ label, undo: insertAll, redo: removeAll }, historyGroup);
+    }
+
+    /** Items followed by the connectors attached to any of them, which go where they go. */
+    private withConnectors<T extends StoredItem>(items: T[]): (T | QuadItem<ConnectorProperties>)[] {
+        const listed = new Set<StoredItem>(items);
+        const attached = new Set<QuadItem<ConnectorProperties>>();
+        for (const item of items) for (const c of this.connectorsOf.get(item.id) ?? []) if (!listed.has(c)) attached.add(c);
+        return [...items, ...attached];
+    }
+
+    /** Re-indexes and notifies for items mutated in place, then saves them and their re-routed connectors in one transaction. */
+    private async writeItems(items: EditableItem[]): Promise<void> {
+        for (const item of items) {
+            this.tree.update(item, true);
+            if (isTextCard(item)) {
+                this.indexCard(item);
+                this.store.getState().putCard(item);
+            }
+        }
+        const connectors = this.rerouteConnectors(items);
+        this.store.getState().incrementRevision();
+        await this.db.transaction("rw", this.db.tables, async () => {
+            for (const item of [...items, ...connectors]) await this.saveItemToDB(item);
+        });
+    }
+
+    private async restoreItems(snapshots: ItemSnapshot[]): Promise<void> {
+        for (const { item, data, bbox, anchor } of snapshots) {
+            // A fresh clone each time, so stroke points are new arrays and views notice the change
+            Object.assign(item.data, structuredClone(data));
+            Object.assign(item, bbox);
+            restoreAnchor(item, anchor);
+        }
+        await this.writeItems(snapshots.map((s) => s.item));
+    }
+
+    /**
+     * Builds a quadtree item for new stroke data, with the bbox padded by its widest half-width.
+     * Its points are rounded to the storage grid.
      */
-    public addStroke(data: StrokeData): void {
-        // Calculate the bounding box for the new stroke
-        const xs = data.pts.map((p) => p[0]);
-        const ys = data.pts.map((p) => p[1]);
-        const minX = Math.min(...xs);
-        const maxX = Math.max(...xs);
-        const minY = Math.min(...ys);
-        const maxY = Math.max(...ys);
-
-        // Add a margin around the bounding box based on the stroke width
-        const margin = data.stroke.width / 2;
-
-        const rect = getQuadItem<StrokeProperties>({
+    private createStrokeItem(data: StrokeData, anchor: Anchor): QuadItem<StrokeProperties> {
+        data = { ...data, pts: quantizePoints(data.pts) };
+        return getQuadItem<StrokeProperties>({
             id: crypto.randomUUID(),
-            x: minX - margin,
-            y: minY - margin,
-            width: maxX - minX + data.stroke.width,
-            height: maxY - minY + data.stroke.width,
+            ...this.strokeWorldBBox(data, anchor),
+            anchor,
+            createdAt: Date.now(),
             data,
         });
+    }
 
-        // Update state
-        this.tree.insert(rect);
-        this.saveItemToDB(rect);
+    /** Approximate world bbox of anchored stroke data, for the quadtree. */
+    private strokeWorldBBox(data: StrokeData, anchor: Anchor): BBox {
+        return frameBBoxToWorld(itemFrame({ anchor }), pointsBBox(data.pts, maxStrokeRadius(data)));
+    }
 
-        // Notify all subscribers that data has changed by incrementing the revision.
+    /**
+     * Adds strokes to the quadtree only: not saved, not undoable. For generated scenes such as the
+     * rendering benchmark, which should not end up in the user's drawing.
+     */
+    public addTransientStrokes(strokes: { data: StrokeData; anchor: Anchor }[]): void {
+        // Not in byId either: they are never synced
+        for (const { data, anchor } of strokes) this.tree.insert(this.createStrokeItem(data, anchor));
         this.store.getState().incrementRevision();
     }
 
+    /**
+     * (Re)builds the quadtree and the card store from every item table, reloads the bookmarks and notifies views.
+     * Rows are already in the current shape: the schema upgrade and the import migrate older ones.
+     */
+    private async loadItemsFromDB(): Promise<{ [table in ItemTable]: number }> {
+        const [allStrokes, allCards, allWormholes, allConnectors, bookmarks] = await Promise.all([
+            this.db.strokes.toArray(),
+            this.db.textCards.toArray(),
+            this.db.wormholes.toArray(),
+            this.db.connectors.toArray(),
+            this.db.bookmarks.toArray(),
+        ]);
+
+        this.tree.clear();
+        this.byId.clear();
+        this.searchIndex.clear();
+        this.connectorsOf.clear();
+        this.routes.clear();
+        const cards = allCards.map((c) => getQuadItem(c));
+        for (const card of cards) {
+            // Rows written by older versions or other apps may not be safe to render
+            sanitizeCardContent(card.data);
+            this.indexCard(card);
+        }
+        for (const item of [...allStrokes.map((s) => getQuadItem(s)), ...cards, ...allWormholes.map((w) => getQuadItem(w))]) {
+            this.tree.insert(item);
+            this.byId.set(item.id, item);
+        }
+        // Routed once every item they could connect is in
+        for (const connector of allConnectors.map((c) => getQuadItem(c))) {
+            this.linkConnector(connector);
+            this.routeConnectorItem(connector);
+            this.tree.insert(connector);
+            this.byId.set(connector.id, connector);
+        }
+        this.store.getState().setCards(cards);
+        this.store.getState().setBookmarks(bookmarks);
+
+        return { strokes: allStrokes.length, textCards: allCards.length, wormholes: allWormholes.length, connectors: allConnectors.length };
+    }
+
     /**
      * Retrieves all strokes that intersect with the given bounding box.
      * This is the primary method used by views to get the data they need to render.
@@ -152,11 +455,25 @@ export class DrawingModel {
         return this.tree.retrieve(new Rectangle(bounds));
     }
 
+    /** Every item in the drawing, e.g. for exporting the whole board. */
+    public getAllItems(): QuadItem[] {
+        return this.tree.retrieve(new Rectangle(QT_BOUNDS));
+    }
+
+    /** A saved item by id, e.g. the ends of a connector. */
+    public getItem(id: string): QuadItem | undefined {
+        return this.byId.get(id);
+    }
+
+    /** The current curve of a connector, or undefined for an orphan whose end is gone. */
+    public getConnectorRoute(id: string): ConnectorRoute | undefined {
+        return this.routes.get(id);
+    }
+
     /**
      * Private helper to initialize the quadtree with vast bounds.
      */
     private initQuadtree(): Quadtree<QuadItem> {
-        const QT_BOUNDS: BBox = { x: -1e13, y: -1e13, width: 2e13, height: 2e13 };
         return new Quadtree<QuadItem>(QT_BOUNDS);
     }
     public async getTextCardById(id: string): Promise<QuadItem<TextCardProperties> | undefined> {
@@ -173,86 +490,467 @@ export class DrawingModel {
         return hits.find((h) => h.id === id);
     }
 
-    async updateTextCard(id: string, patch: Partial<TextCardData>, newBBox?: Partial<BBox>): Promise<void> {
+    /**
+     * Patches a text card's data and/or bbox. A card moved to a new `x`/`y` should be given its new
+     * `anchor` too: the float position is only for the quadtree, and is not exact at depth. Connectors
+     * attached to the card are re-routed to its new bbox.
+     * @param options.historyGroup Updates sharing a group key coalesce into one undo step until
+     * `endHistoryGroup` is called, e.g. the debounced content saves of one editing session.
+     */
+    async updateTextCard(id: string, patch: Partial<TextCardData>, newBBox?: Partial<BBox> & { anchor?: Anchor }, options: { historyGroup?: string } = {}): Promise<void> {
         const card = await this.getTextCardById(id);
         if (!card) {
             console.warn(`updateTextCard: no card with id ${id} found`);
             return;
         }
 
-        // mutate in place
+        const before = snapshotCard(card);
+
+        // mutate in place; the HTML always follows the document
         Object.assign(card.data, patch);
+        sanitizeCardContent(card.data);
         if (newBBox) Object.assign(card, newBBox);
 
-        // 1️⃣  re‑index inside the quadtree
+        const after = snapshotCard(card);
+        if (JSON.stringify(before) === JSON.stringify(after)) return; // e.g. blur without an edit
+
+        await this.writeCard(card);
+        this.history.push(
+            {
+                label: "edit card",
+                undo: () => this.restoreCard(id, before),
+                redo: () => this.restoreCard(id, after),
+            },
+            options.historyGroup
+        );
+    }
+
+    /**
+     * Cards whose title or content contains every word of the query, best match first, with
+     * highlighted snippets. See CardSearchIndex.search.
+     */
+    public searchCards(query: string, limit?: number): SearchResult[] {
+        return this.searchIndex.search(query, limit);
+    }
+
+    private indexCard(card: QuadItem<TextCardProperties>): void {
+        this.searchIndex.setCard(card.id, card.data.title, card.data.htmlString);
+    }
+
+    /** Closes an open history group so the next update becomes its own undo step. */
+    endHistoryGroup(groupKey?: string): void {
+        this.history.endGroup(groupKey);
+    }
+
+    public undo(): Promise<void> {
+        return this.history.undo();
+    }
+
+    public redo(): Promise<void> {
+        return this.history.redo();
+    }
+
+    /** Re-indexes, persists and announces a card that was mutated in place. */
+    private async writeCard(card: QuadItem<TextCardProperties>): Promise<void> {
+        // 1️⃣  re‑index inside the quadtree, with the connectors that follow it
         this.tree.update(card, true);
+        const connectors = this.rerouteConnectors([card]);
 
         // 2️⃣  persist (put = upsert, so it overwrites the row with same PK)
         await this.saveItemToDB(card);
+        for (const connector of connectors) await this.saveItemToDB(connector);
 
-        // 3️⃣  notify views
+        // 3️⃣  notify views and search
+        this.indexCard(card);
         this.store.getState().putCard(card);
     }
 
+    private async restoreCard(id: string, snapshot: TextCardSnapshot): Promise<void> {
+        const card = this.store.getState().textCards[id];
+        if (!card) return;
+        Object.assign(card.data, structuredClone(snapshot.data));
+        Object.assign(card, snapshot.bbox);
+        restoreAnchor(card, snapshot.anchor);
+        await this.writeCard(card);
+    }
+
+    /** Puts an item into the quadtree and DB and notifies views. Used by commands and their redo. */
+    private async insertItem(item: StoredItem): Promise<void> {
+        if (isConnector(item)) {
+            this.linkConnector(item);
+            this.routeConnectorItem(item);
+        }
+        this.tree.insert(item);
+        this.byId.set(item.id, item);
+        // Orphaned connectors get their end back
+        this.rerouteConnectors([item]);
+        if (isTextCard(item)) {
+            this.indexCard(item);
+            this.store.getState().putCard(item);
+        } else this.store.getState().incrementRevision();
+        await this.saveItemToDB(item);
+    }
+
+    /** Inverse of insertItem. Connectors still attached to the item are left as orphans. */
+    private async removeItem(item: StoredItem): Promise<void> {
+        this.tree.remove(item);
+        this.byId.delete(item.id);
+        this.rerouteConnectors([item]);
+        this.emitLocalChanges([{ type: "delete", table: itemTable(item), id: item.id }]);
+        if (isConnector(item)) {
+            this.unlinkConnector(item);
+            this.store.getState().incrementRevision();
+            await this.db.connectors.delete(item.id);
+        } else if (isTextCard(item)) {
+            this.searchIndex.removeCard(item.id);
+            this.store.getState().deleteCard(item.id);
+            await this.db.textCards.delete(item.id);
+        } else if (isWormholeCard(item)) {
+            this.store.getState().incrementRevision();
+            await this.db.wormholes.delete(item.id);
+        } else {
+            this.store.getState().incrementRevision();
+            await this.db.strokes.delete(item.id);
+        }
+    }
+
     /**
      * Private helper to save a stroke to the database, cleaning it first.
      */
-    async saveItemToDB(item: QuadItem<StrokeProperties | TextCardProperties>): Promise<void> {
+    async saveItemToDB(item: StoredItem): Promise<void> {
         // structuredClone creates a deep copy and removes methods/prototypes.
         const clone = structuredClone(item);
         // The quadtree adds a private `qtIndex` property during insertion; we must remove it before saving.
 
         if (isStroke(clone)) {
             const { qtIndex, ...rest } = clone;
+            this.emitLocalChanges([{ type: "put", table: "strokes", item: rest }]);
             await this.db.strokes.put(rest);
         } else if (isTextCard(clone)) {
             const { qtIndex, ...rest } = clone;
+            this.emitLocalChanges([{ type: "put", table: "textCards", item: rest }]);
             await this.db.textCards.put(rest);
+        } else if (isWormholeCard(clone)) {
+            const { qtIndex, ...rest } = clone;
+            this.emitLocalChanges([{ type: "put", table: "wormholes", item: rest }]);
+            await this.db.wormholes.put(rest);
+        } else if (isConnector(clone)) {
+            const { qtIndex, ...rest } = clone;
+            this.emitLocalChanges([{ type: "put", table: "connectors", item: rest }]);
+            await this.db.connectors.put(rest);
         }
     }
-    public addTextCard(card: QuadItem<TextCardProperties>): void {
-        this.tree.insert(card);
-        this.saveItemToDB(card);
-        this.store.getState().putCard(card);
+
+    // ─── Connectors ───────────────────────────────────────────────────────────
+
+    /**
+     * Connects two saved items with a curve, routed between their bboxes, as an undoable change.
+     * Returns null if either item does not exist.
+     */
+    public async addConnector(data: ConnectorData): Promise<QuadItem<ConnectorProperties> | null> {
+        if (data.from === data.to || !this.byId.has(data.from) || !this.byId.has(data.to)) return null;
+        // The bbox and anchor are set by routing it
+        const connector = getQuadItem<ConnectorProperties>({ id: crypto.randomUUID(), x: 0, y: 0, width: 0, height: 0, createdAt: Date.now(), data });
+        await this.insertItem(connector);
+        this.history.push({
+            label: "add connector",
+            undo: () => this.removeItem(connector),
+            redo: () => this.insertItem(connector),
+        });
+        return connector;
+    }
+
+    /** Changes a connector's arrowheads and/or label as an undoable change. An empty label removes it. */
+    public async updateConnector(id: string, patch: { label?: string; arrows?: ConnectorData["arrows"] }): Promise<void> {
+        const connector = this.byId.get(id);
+        if (!connector || !isConnector(connector)) return;
+        const before = structuredClone(connector.data);
+        const after = structuredClone(before);
+        if (patch.arrows) after.arrows = patch.arrows;
+        if (patch.label) after.label = patch.label;
+        else if (patch.label === "") delete after.label;
+        if (JSON.stringify(before) === JSON.stringify(after)) return;
+
+        await this.writeConnector(connector, after);
+        this.history.push({
+            label: "edit connector",
+            undo: () => this.writeConnector(connector, before),
+            redo: () => this.writeConnector(connector, after),
+        });
     }
+
+    /**
+     * Deletes connectors as one undoable change, e.g. those the eraser crosses.
+     * @param options.historyGroup Calls sharing a key (one eraser drag) become one undo step.
+     */
+    public async deleteConnectors(connectors: QuadItem<ConnectorProperties>[], options: { historyGroup?: string } = {}): Promise<void> {
+        await this.deleteStored(connectors, "erase", options.historyGroup);
+    }
+
+    private async writeConnector(connector: QuadItem<ConnectorProperties>, data: ConnectorData): Promise<void> {
+        // A new object, so views redraw it
+        connector.data = structuredClone(data);
+        this.routeConnectorItem(connector);
+        this.tree.update(connector, true);
+        this.store.getState().incrementRevision();
+        await this.saveItemToDB(connector);
+    }
+
+    private linkConnector(connector: QuadItem<ConnectorProperties>): void {
+        for (const end of [connector.data.from, connector.data.to]) {
+            let attached = this.connectorsOf.get(end);
+            if (!attached) this.connectorsOf.set(end, (attached = new Set()));
+            attached.add(connector);
+        }
+    }
+
+    private unlinkConnector(connector: QuadItem<ConnectorProperties>): void {
+        for (const end of [connector.data.from, connector.data.to]) {
+            const attached = this.connectorsOf.get(end);
+            attached?.delete(connector);
+            if (attached?.size === 0) this.connectorsOf.delete(end);
+        }
+        this.routes.delete(connector.id);
+    }
+
+    /**
+     * Routes a connector between its ends as they are now, moving its anchor and bbox to the curve,
+     * or makes it an orphan if either end is gone. The quadtree is left to the caller.
+     */
+    private routeConnectorItem(connector: QuadItem<ConnectorProperties>): void {
+        const from = this.byId.get(connector.data.from);
+        const to = this.byId.get(connector.data.to);
+        if (!from || !to) {
+            this.routes.delete(connector.id);
+            return;
+        }
+        const route = routeConnector(connector.data, connector.data.zoom.zoomExp, from, to);
+        connector.anchor = toAnchor(route.origin);
+        Object.assign(connector, frameBBoxToWorld({ origin: route.origin, exp: route.exp }, routeBBox(route, connector.data.stroke.width)));
+        this.routes.set(connector.id, route);
+    }
+
+    /** Re-routes and re-indexes the saved connectors attached to `items`, which are returned for saving. */
+    private rerouteConnectors(items: QuadItem[]): QuadItem<ConnectorProperties>[] {
+        const attached = new Set(items.flatMap((item) => [...(this.connectorsOf.get(item.id) ?? [])]));
+        for (const connector of attached) {
+            this.routeConnectorItem(connector);
+            if (this.byId.has(connector.id)) this.tree.update(connector, true);
+        }
+        return [...attached];
+    }
+
+    // ─── Bookmarks ────────────────────────────────────────────────────────────
+    // Named camera positions, saved with the board but not part of the undo history or sync.
+
+    /** Saves `camera` as a bookmark at the end of the list. */
+    public async addBookmark(name: string, camera: CameraTarget): Promise<Bookmark> {
+        const bookmarks = this.store.getState().bookmarks;
+        const bookmark: Bookmark = {
+            id: crypto.randomUUID(),
+            name,
+            camera: structuredClone(camera),
+            order: bookmarks.length === 0 ? 0 : bookmarks[bookmarks.length - 1].order + 1,
+            createdAt: Date.now(),
+        };
+        await this.db.bookmarks.add(bookmark);
+        this.store.getState().setBookmarks([...bookmarks, bookmark]);
+        return bookmark;
+    }
+
+    public async renameBookmark(id: string, name: string): Promise<void> {
+        const bookmarks = this.store.getState().bookmarks;
+        if (!bookmarks.some((b) => b.id === id)) return;
+        await this.db.bookmarks.update(id, { name });
+        this.store.getState().setBookmarks(bookmarks.map((b) => (b.id === id ? { ...b, name } : b)));
+    }
+
+    /** Moves a bookmark to `index` in the list, renumbering the order of them all. */
+    public async moveBookmark(id: string, index: number): Promise<void> {
+        const bookmarks = [...this.store.getState().bookmarks];
+        const from = bookmarks.findIndex((b) => b.id === id);
+        const to = Math.max(0, Math.min(index, bookmarks.length - 1));
+        if (from === -1 || from === to) return;
+        bookmarks.splice(to, 0, ...bookmarks.splice(from, 1));
+        const renumbered = bookmarks.map((b, order) => ({ ...b, order }));
+        await this.db.bookmarks.bulkPut(renumbered);
+        this.store.getState().setBookmarks(renumbered);
+    }
+
+    public async deleteBookmark(id: string): Promise<void> {
+        await this.db.bookmarks.delete(id);
+        this.store.getState().setBookmarks(this.store.getState().bookmarks.filter((b) => b.id !== id));
+    }
+
+    /**
+     * Calls `listener` with every change to saved items made on this client, in order, as they are
+     * made. Changes applied with applyRemoteChanges are not reported. Returns an unsubscribe function.
+     */
+    public onLocalChanges(listener: (changes: ItemChange[]) => void): () => void {
+        this.localChangeListeners.add(listener);
+        return () => this.localChangeListeners.delete(listener);
+    }
+
+    private emitLocalChanges(changes: ItemChange[]): void {
+        if (changes.length === 0) return;
+        for (const listener of this.localChangeListeners) listener(changes);
+    }
+
+    /** Every saved item as a put, e.g. for a sync client joining a room. */
+    public getSavedItems(): ItemChange[] {
+        return [...this.byId.values()].map((item) => {
+            const { qtIndex, ...rest } = structuredClone(item) as QuadItem & { qtIndex?: unknown };
+            return { type: "put", table: itemTable(rest), item: rest };
+        });
+    }
+
+    /** The table of every saved item by id, to tell what a rebuild removed. */
+    private savedItemTables(): Map<string, ItemTable> {
+        return new Map([...this.byId].map(([id, item]) => [id, itemTable(item)]));
+    }
+
+    /** Reports a rebuild from the DB (import, clear) as changes: deletes for items that are gone, puts for the rest. */
+    private emitRebuild(before: Map<string, ItemTable>): void {
+        const deletes: ItemChange[] = [];
+        for (const [id, table] of before) if (!this.byId.has(id)) deletes.push({ type: "delete", table, id });
+        this.emitLocalChanges([...deletes, ...this.getSavedItems()]);
+    }
+
+    /**
+     * Applies changes made on another client to the quadtree, cards and DB, without recording them
+     * in the history or reporting them as local changes. Items are updated in place, so selections
+     * and views holding them see the new values.
+     * Records that fail validateRecord, e.g. from an older or broken client, are skipped.
+     * @param options.persist False for changes from another tab, which already wrote them to the shared DB.
+     */
+    public async applyRemoteChanges(changes: ItemChange[], options: { persist?: boolean } = {}): Promise<void> {
+        const persist = options.persist ?? true;
+        for (const change of changes) {
+            const invalid = !ITEM_TABLES.includes(change.table)
+                ? `unknown table ${change.table}`
+                : change.type === "put" && validateRecord(change.table, change.item, DRAWING_FORMAT_VERSION);
+            if (invalid) {
+                console.warn(`applyRemoteChanges: skipped a ${change.type} in ${change.table}: ${invalid}`);
+                continue;
+            }
+            if (change.type === "delete") {
+                const item = this.byId.get(change.id);
+                if (item) {
+                    this.tree.remove(item);
+                    this.byId.delete(change.id);
+                    if (isConnector(item)) this.unlinkConnector(item);
+                    else this.rerouteConnectors([item]);
+                    if (isTextCard(item)) {
+                        this.searchIndex.removeCard(item.id);
+                        this.store.getState().deleteCard(item.id);
+                    }
+                }
+                if (persist) await this.db.table(change.table).delete(change.id);
+                continue;
+            }
+
+            if (change.item.data.type === "text-card") sanitizeCardContent(change.item.data);
+            let item = this.byId.get(change.item.id);
+            if (item) {
+                this.tree.remove(item);
+                // Its ends may have changed
+                if (isConnector(item)) this.unlinkConnector(item);
+                restoreAnchor(item, undefined);
+                Object.assign(item, structuredClone(change.item));
+            } else {
+                item = getQuadItem(structuredClone(change.item));
+                this.byId.set(item.id, item);
+            }
+            if (isConnector(item)) {
+                this.linkConnector(item);
+                this.routeConnectorItem(item);
+            }
+            this.tree.insert(item);
+            // Routes are derived, so the other client's are not waited for
+            this.rerouteConnectors([item]);
+            if (isTextCard(item)) {
+                this.indexCard(item);
+                this.store.getState().putCard(item);
+            }
+            if (persist) await this.db.table(change.table).put(change.item);
+        }
+        this.store.getState().incrementRevision();
+    }
+    public async addTextCard(card: QuadItem<TextCardProperties>): Promise<void> {
+        card.createdAt ??= Date.now();
+        await this.insertItem(card);
+        this.history.push({
+            label: "add card",
+            undo: () => this.removeItem(card),
+            redo: () => this.insertItem(card),
+        });
+    }
+    public async addWormhole(wormhole: QuadItem<WormholeCardProperties>): Promise<void> {
+        wormhole.createdAt ??= Date.now();
+        await this.insertItem(wormhole);
+        this.history.push({
+            label: "add wormhole",
+            undo: () => this.removeItem(wormhole),
+            redo: () => this.insertItem(wormhole),
+        });
+    }
+    /** Deletes a card and the connectors attached to it as one undoable change. */
     async deleteTextCard(id: string): Promise<void> {
         const card = await this.getTextCardById(id);
         if (!card) return;
-        this.tree.remove(card);
-        await this.db.textCards.delete(card.id);
+        await this.deleteStored(this.withConnectors([card]), "delete card");
         console.log("card is deleted from db");
-        this.store.getState().deleteCard(id);
     }
 
     public async exportDrawingData() {
         return await this.dataService.exportDrawingToJson();
     }
-    public async loadFromFile(file: File): Promise<void> {
+    public async exportDrawingBinary(options?: BinaryExportOptions) {
+        return await this.dataService.exportDrawingToBinary(options);
+    }
+    /**
+     * Imports an exported drawing, replacing the current one or merged into it (see ImportOptions).
+     * The file may be JSON or binary, gzipped or not.
+     * @returns What was imported, including the records rejected by validation.
+     */
+    public async loadFromFile(file: File, options?: ImportOptions): Promise<ImportReport> {
         try {
-            const jsonContent = await file.text();
+            const bytes = new Uint8Array(await file.arrayBuffer());
 
             // 1. Delegate DB update to the service
-            await this.dataService.importFromJson(jsonContent);
-
-            // 2. Manually rebuild the in-memory state (quadtree)
-            console.log("Rebuilding quadtree from newly imported data...");
-            this.tree.clear();
-            const allStrokes = await this.db.strokes.toArray();
-            for (const s of allStrokes) {
-                const rect = getQuadItem(s as StrokeProperties);
-                this.tree.insert(rect);
+            const report = await this.dataService.importFromFile(bytes, options);
+            if (report.rejected.length > 0) {
+                console.warn(`Import of ${file.name}: ${report.rejected.length} records rejected.`);
+                console.table(report.rejected);
+            }
+            if (report.sanitized.length > 0) {
+                console.warn(`Import of ${file.name}: unsafe content removed from ${report.sanitized.length} cards.`);
+                console.table(report.sanitized.map(({ id, removed }) => ({ id, removed: removed.join(", ") })));
             }
 
-            // 3. Notify all views of the major change
-            this.store.getState().incrementRevision();
-            console.log(`Successfully loaded and rebuilt drawing from file: ${file.name}`);
+            // 2. Rebuild the in-memory state (quadtree and cards) from the DB
+            console.log("Rebuilding quadtree from newly imported data...");
+            const before = this.savedItemTables();
+            await this.loadItemsFromDB();
+            this.emitRebuild(before);
+
+            // 3. The old history refers to item objects that no longer exist.
+            this.history.clear();
+            console.log(`Successfully loaded and rebuilt drawing from file: ${file.name}`, report);
+            return report;
         } catch (error) {
             console.error(`Failed to load drawing from file ${file.name}:`, error);
             throw error; // Re-throw for the UI to handle
         }
     }
-    clearDrawing() {
-        this.db.clearDB();
-        location.reload(); // UI side-effect is ok in a static utility method like this.
+    /** Deletes every item and bookmark of the open board. Not undoable: the history is dropped with them. */
+    async clearDrawing(): Promise<void> {
+        await this.db.transaction("rw", this.db.tables, async () => {
+            for (const table of this.db.tables) await table.clear();
+        });
+        this.history.clear();
+        const before = this.savedItemTables();
+        await this.loadItemsFromDB();
+        this.emitRebuild(before);
     }
 }
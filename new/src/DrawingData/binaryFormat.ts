@@ -0,0 +1,356 @@
+// binaryFormat.ts
+//
+// A compact alternative to the JSON export, for boards too big to pretty-print. Decoding gives back
+// the same object the JSON export parses to, so both go through the same migration and import.
+//
+// Layout (all integers are LEB128 varints, signed ones zigzag-encoded, floats little-endian):
+//   "ICNV", u8 framing version, drawing format version, section count, sections
+//   section: table name, u8 codec, record count, records
+//   records: codec JSON is one JSON string per record; codec STROKES is a color table, a width
+//   table, then per stroke its id, flags, bbox, anchor, createdAt, style indices, points and pressure
+//   values (counted on their own since framing version 2; version 1 had one per point).
+// Stroke points on the 2^-POINT_GRID_BITS grid are stored as deltas of grid steps from the stroke's
+// bbox corner; any other stroke keeps its raw float64 points, so every file round-trips exactly.
+
+import { POINT_GRID_BITS } from "../canvas/strokePipeline";
+import type { Point, StrokeProperties } from "../canvas/types";
+import { DRAWING_FORMAT_VERSION } from "./migrations";
+
+const MAGIC = [0x49, 0x43, 0x4e, 0x56]; // "ICNV"
+const GZIP_MAGIC = [0x1f, 0x8b];
+/** Version of the framing above, independent of the drawing format version it carries. */
+const BINARY_VERSION = 2;
+
+/** How a section's records are encoded. */
+const CODEC_JSON = 0;
+const CODEC_STROKES = 1;
+
+/** Which optional parts a stroke record has. */
+const HAS_ANCHOR = 1;
+const HAS_CREATED_AT = 2;
+const HAS_PRESSURE = 4;
+/** Points are grid deltas rather than float64 pairs. */
+const QUANTIZED = 8;
+/** Pressure is float32 rather than float64. */
+const PRESSURE_32 = 16;
+
+const GRID = Math.pow(2, POINT_GRID_BITS);
+
+export type BinaryExportOptions = {
+    /** Gzip the file through CompressionStream, where the browser has it. */
+    gzip?: boolean;
+};
+
+/** Encodes tables of a drawing (as read from the DB) into the binary format. */
+export async function encodeDrawing(tables: { [table: string]: any[] }, options: BinaryExportOptions = {}): Promise<Uint8Array> {
+    const w = new ByteWriter();
+    w.bytes(MAGIC);
+    w.u8(BINARY_VERSION);
+    w.uvarint(DRAWING_FORMAT_VERSION);
+    const names = Object.keys(tables);
+    w.uvarint(names.length);
+    for (const name of names) {
+        w.string(name);
+        if (name === "strokes") {
+            w.u8(CODEC_STROKES);
+            encodeStrokes(w, tables[name]);
+        } else {
+            w.u8(CODEC_JSON);
+            w.uvarint(tables[name].length);
+            for (const record of tables[name]) w.string(JSON.stringify(record));
+        }
+    }
+
+    const bytes = w.finish();
+    return options.gzip && typeof CompressionStream !== "undefined" ? pipe(bytes, new CompressionStream("gzip")) : bytes;
+}
+
+/**
+ * Reads an exported file in any supported format, gzipped or not, into the object the JSON export
+ * parses to. Its migration and validation are left to migrateDrawingData.
+ */
+export async function decodeDrawingFile(bytes: Uint8Array): Promise<unknown> {
+    if (startsWith(bytes, GZIP_MAGIC)) {
+        if (typeof DecompressionStream === "undefined") throw new Error("This browser cannot read gzipped files.");
+        bytes = await pipe(bytes, new DecompressionStream("gzip"));
+    }
+    if (startsWith(bytes, MAGIC)) return decodeDrawing(bytes);
+    return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+function decodeDrawing(bytes: Uint8Array): { [key: string]: unknown } {
+    const r = new ByteReader(bytes);
+    r.skip(MAGIC.length);
+    const version = r.u8();
+    if (version > BINARY_VERSION) throw new Error(`Unsupported binary format version ${version}.`);
+
+    const result: { [key: string]: unknown } = { formatVersion: r.uvarint() };
+    const sections = r.uvarint();
+    for (let i = 0; i < sections; i++) {
+        const name = r.string();
+        const codec = r.u8();
+        if (codec === CODEC_STROKES) {
+            result[name] = decodeStrokes(r, version);
+        } else if (codec === CODEC_JSON) {
+            const count = r.uvarint();
+            const records: unknown[] = [];
+            for (let j = 0; j < count; j++) records.push(JSON.parse(r.string()));
+            result[name] = records;
+        } else {
+            throw new Error(`Unknown codec ${codec} for table '${name}'.`);
+        }
+    }
+    return result;
+}
+
+// ─── Strokes ──────────────────────────────────────────────────────────────────
+
+function encodeStrokes(w: ByteWriter, strokes: StrokeProperties[]): void {
+    // Boards use a handful of colors and widths, so each is stored once and referenced by index
+    const colors = new Map<number, number>();
+    const widths = new Map<number, number>();
+    for (const s of strokes) {
+        if (!colors.has(s.data.stroke.color)) colors.set(s.data.stroke.color, colors.size);
+        if (!widths.has(s.data.stroke.width)) widths.set(s.data.stroke.width, widths.size);
+    }
+    w.uvarint(colors.size);
+    for (const c of colors.keys()) w.f64(c);
+    w.uvarint(widths.size);
+    for (const width of widths.keys()) w.f64(width);
+
+    w.uvarint(strokes.length);
+    for (const s of strokes) {
+        const { pts, pressure } = s.data;
+        const grid = gridPoints(pts);
+        const pressure32 = pressure?.every((p) => Math.fround(p) === p) ?? false;
+        let flags = 0;
+        if (s.anchor) flags |= HAS_ANCHOR;
+        if (s.createdAt !== undefined) flags |= HAS_CREATED_AT;
+        if (pressure) flags |= HAS_PRESSURE;
+        if (grid) flags |= QUANTIZED;
+        if (pressure32) flags |= PRESSURE_32;
+
+        w.string(s.id);
+        w.u8(flags);
+        w.f64(s.x);
+        w.f64(s.y);
+        w.f64(s.width);
+        w.f64(s.height);
+        if (s.anchor) {
+            w.string(s.anchor.x);
+            w.string(s.anchor.y);
+            w.varint(s.anchor.exp);
+        }
+        if (s.createdAt !== undefined) w.f64(s.createdAt);
+        w.uvarint(colors.get(s.data.stroke.color)!);
+        w.uvarint(widths.get(s.data.stroke.width)!);
+
+        w.uvarint(pts.length);
+        if (grid) {
+            // The bbox corner, then each point as a step from the one before
+            let [px, py] = grid.reduce(([mx, my], [x, y]) => [Math.min(mx, x), Math.min(my, y)]);
+            w.varint(px);
+            w.varint(py);
+            for (const [x, y] of grid) {
+                w.varint(x - px);
+                w.varint(y - py);
+                [px, py] = [x, y];
+            }
+        } else {
+            for (const [x, y] of pts) {
+                w.f64(x);
+                w.f64(y);
+            }
+        }
+        if (pressure) {
+            // Not assumed to match the points: a stroke where it does not is rejected on import, not misread
+            w.uvarint(pressure.length);
+            for (const p of pressure) pressure32 ? w.f32(p) : w.f64(p);
+        }
+    }
+}
+
+function decodeStrokes(r: ByteReader, version: number): StrokeProperties[] {
+    const colors = Array.from({ length: r.uvarint() }, () => r.f64());
+    const widths = Array.from({ length: r.uvarint() }, () => r.f64());
+
+    const count = r.uvarint();
+    const strokes: StrokeProperties[] = [];
+    for (let i = 0; i < count; i++) {
+        const id = r.string();
+        const flags = r.u8();
+        const bbox = { x: r.f64(), y: r.f64(), width: r.f64(), height: r.f64() };
+        const anchor = flags & HAS_ANCHOR ? { x: r.string(), y: r.string(), exp: r.varint() } : null;
+        const createdAt = flags & HAS_CREATED_AT ? r.f64() : null;
+        const color = colors[r.uvarint()];
+        const width = widths[r.uvarint()];
+
+        const n = r.uvarint();
+        const pts: Point[] = [];
+        if (flags & QUANTIZED) {
+            let [x, y] = [r.varint(), r.varint()];
+            for (let j = 0; j < n; j++) {
+                x += r.varint();
+                y += r.varint();
+                pts.push([x / GRID, y / GRID]);
+            }
+        } else {
+            for (let j = 0; j < n; j++) pts.push([r.f64(), r.f64()]);
+        }
+        const pressureCount = flags & HAS_PRESSURE ? (version >= 2 ? r.uvarint() : n) : 0;
+        const pressure = flags & HAS_PRESSURE ? Array.from({ length: pressureCount }, () => (flags & PRESSURE_32 ? r.f32() : r.f64())) : null;
+
+        // Same keys in the same order as a stroke read from the DB
+        strokes.push({
+            id,
+            ...bbox,
+            ...(anchor && { anchor }),
+            ...(createdAt !== null && { createdAt }),
+            data: { type: "stroke-rect", pts, ...(pressure && { pressure }), stroke: { width, color } },
+        });
+    }
+    return strokes;
+}
+
+/** Largest grid coordinate whose deltas still zigzag-encode to safe integers. */
+const MAX_GRID = Math.pow(2, 51);
+
+/** Points as integer grid steps, or null if any is off the grid (or too far out to count in steps exactly). */
+function gridPoints(pts: Point[]): Point[] | null {
+    if (pts.length === 0) return null;
+    const out: Point[] = [];
+    for (const [x, y] of pts) {
+        const gx = x * GRID;
+        const gy = y * GRID;
+        if (!Number.isInteger(gx) || !Number.isInteger(gy) || Math.abs(gx) > MAX_GRID || Math.abs(gy) > MAX_GRID) return null;
+        if (Object.is(gx, -0) || Object.is(gy, -0)) return null;
+        out.push([gx, gy]);
+    }
+    return out;
+}
+
+// ─── Bytes ────────────────────────────────────────────────────────────────────
+
+const startsWith = (bytes: Uint8Array, prefix: number[]) => prefix.every((b, i) => bytes[i] === b);
+
+async function pipe(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const stream = new Blob([bytes]).stream().pipeThrough(transform);
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+class ByteWriter {
+    private buf = new Uint8Array(1 << 16);
+    private view = new DataView(this.buf.buffer);
+    private pos = 0;
+    private encoder = new TextEncoder();
+
+    private reserve(n: number) {
+        if (this.pos + n <= this.buf.length) return;
+        const next = new Uint8Array(Math.max(this.buf.length * 2, this.pos + n));
+        next.set(this.buf);
+        this.buf = next;
+        this.view = new DataView(next.buffer);
+    }
+
+    u8(v: number) {
+        this.reserve(1);
+        this.buf[this.pos++] = v;
+    }
+
+    bytes(v: ArrayLike<number>) {
+        this.reserve(v.length);
+        this.buf.set(v, this.pos);
+        this.pos += v.length;
+    }
+
+    /** Unsigned LEB128, exact for any safe integer. */
+    uvarint(v: number) {
+        while (v >= 0x80) {
+            this.u8((v % 0x80) | 0x80);
+            v = Math.floor(v / 0x80);
+        }
+        this.u8(v);
+    }
+
+    /** Zigzag: small negative numbers stay small. */
+    varint(v: number) {
+        this.uvarint(v < 0 ? -v * 2 - 1 : v * 2);
+    }
+
+    f32(v: number) {
+        this.reserve(4);
+        this.view.setFloat32(this.pos, v, true);
+        this.pos += 4;
+    }
+
+    f64(v: number) {
+        this.reserve(8);
+        this.view.setFloat64(this.pos, v, true);
+        this.pos += 8;
+    }
+
+    string(s: string) {
+        const b = this.encoder.encode(s);
+        this.uvarint(b.length);
+        this.bytes(b);
+    }
+
+    finish(): Uint8Array {
+        return this.buf.slice(0, this.pos);
+    }
+}
+
+class ByteReader {
+    private view: DataView;
+    private pos = 0;
+    private decoder = new TextDecoder();
+
+    constructor(private buf: Uint8Array) {
+        this.view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+    }
+
+    private take(n: number): number {
+        if (this.pos + n > this.buf.length) throw new Error("Unexpected end of file.");
+        const at = this.pos;
+        this.pos += n;
+        return at;
+    }
+
+    skip(n: number) {
+        this.take(n);
+    }
+
+    u8(): number {
+        return this.buf[this.take(1)];
+    }
+
+    uvarint(): number {
+        let v = 0;
+        let scale = 1;
+        for (;;) {
+            const b = this.u8();
+            v += (b & 0x7f) * scale;
+            if (b < 0x80) return v;
+            scale *= 0x80;
+        }
+    }
+
+    varint(): number {
+        const v = this.uvarint();
+        return v % 2 ? -(v + 1) / 2 : v / 2;
+    }
+
+    f32(): number {
+        return this.view.getFloat32(this.take(4), true);
+    }
+
+    f64(): number {
+        return this.view.getFloat64(this.take(8), true);
+    }
+
+    string(): string {
+        const n = this.uvarint();
+        const at = this.take(n);
+        return this.decoder.decode(this.buf.subarray(at, at + n));
+    }
+}
@@ -0,0 +1,133 @@
+// migrations.ts
+//
+// Upgrades of stored drawings, shared by the Dexie schema (data already in IndexedDB) and by
+// DrawingDataService (exported JSON files, which may be older than the app importing them).
+
+import { anchorLegacyItem } from "../canvas/deepCoords";
+import { QuadItemProperties, TextCardProperties } from "../canvas/types";
+import { docToHtml, htmlToDoc } from "../Notecard/richText";
+import { sanitizeCardContent, sanitizeHtml } from "../Notecard/sanitize";
+import type { DrawingDataSchema } from "./DrawingDB";
+import { RejectedRecord, SanitizedRecord, validateBookmark, validateRecord } from "./validation";
+
+/**
+ * Version of the exported JSON format, kept equal to the Dexie schema version.
+ * 1: strokes and textCards. 2: wormholes. 3: anchors for deep coordinates and createdAt.
+ * 4: structured card content (`doc`), with `htmlString` rendered from it. 5: connectors. 6: bookmarks.
+ */
+export const DRAWING_FORMAT_VERSION = 6;
+
+/**
+ * Tables holding canvas items. A new item type adds its table here and a schema version in DrawingDB.
+ * Connectors come last: they refer to items of the other tables, which are imported first.
+ */
+export const ITEM_TABLES = ["strokes", "textCards", "wormholes", "connectors"] as const;
+export type ItemTable = (typeof ITEM_TABLES)[number];
+
+/** Every table of a drawing: its items, then the bookmarks of camera positions in it. */
+export const DRAWING_TABLES = [...ITEM_TABLES, "bookmarks"] as const;
+export type DrawingTable = (typeof DRAWING_TABLES)[number];
+
+/** The item tables as of version 3, which the upgrade to it rewrites. */
+export const V3_ITEM_TABLES = ["strokes", "textCards", "wormholes"] as const;
+
+const TABLES_BY_TYPE: Record<QuadItemProperties["data"]["type"], ItemTable> = {
+    "stroke-rect": "strokes",
+    "text-card": "textCards",
+    "wormhole-card": "wormholes",
+    connector: "connectors",
+};
+
+/** The table an item is stored in. */
+export const itemTable = (item: QuadItemProperties): ItemTable => TABLES_BY_TYPE[item.data.type];
+
+/** Brings one stored item of any earlier version up to the current shape. */
+export function migrateItem<P extends QuadItemProperties>(item: P): P {
+    const anchored = anchorLegacyItem(item);
+    // 0 marks items from before creation times were recorded
+    return anchored.createdAt === undefined ? { ...anchored, createdAt: 0 } : anchored;
+}
+
+/** Gives a card from before version 4 a document read from its HTML, and canonical HTML to match. */
+export function migrateCardContent(card: TextCardProperties): void {
+    card.data.doc ??= htmlToDoc(card.data.htmlString);
+    card.data.htmlString = docToHtml(card.data.doc);
+}
+
+/** Upgrades from the version before each key to that version, applied in order. */
+const fileUpgrades: Record<number, (data: any) => void> = {
+    2: (data) => {
+        data.wormholes ??= [];
+    },
+    3: (data) => {
+        for (const table of V3_ITEM_TABLES) data[table] = data[table].map(migrateItem);
+    },
+    4: (data) => {
+        data.textCards.forEach(migrateCardContent);
+    },
+    5: (data) => {
+        data.connectors ??= [];
+    },
+    6: (data) => {
+        data.bookmarks ??= [];
+    },
+};
+
+/**
+ * Validates a parsed export and migrates it to the current format.
+ * Files without a `formatVersion` are from before it existed, i.e. version 1 (or 2, if they have wormholes).
+ * A malformed file throws; malformed or duplicate records are left out and listed in `rejected`.
+ * Card content is sanitized; cards that had markup or links removed are listed in `sanitized`.
+ */
+export function migrateDrawingData(raw: any): { data: DrawingDataSchema; rejected: RejectedRecord[]; sanitized: SanitizedRecord[] } {
+    if (!raw || typeof raw !== "object") throw new Error("Invalid format: expected a JSON object.");
+    const version: number = raw.formatVersion ?? (Array.isArray(raw.wormholes) ? 2 : 1);
+    if (!Number.isInteger(version) || version < 1) throw new Error(`Invalid format version: ${raw.formatVersion}`);
+    if (version > DRAWING_FORMAT_VERSION) {
+        throw new Error(`This file is from a newer version of the app (format ${version}, this app reads up to ${DRAWING_FORMAT_VERSION}).`);
+    }
+    if (!Array.isArray(raw.strokes) || !Array.isArray(raw.textCards)) {
+        throw new Error("Invalid format: JSON must have 'strokes' and 'textCards' arrays.");
+    }
+
+    const data = { ...raw };
+    const rejected: RejectedRecord[] = [];
+    const ids = new Set<string>();
+    for (const table of DRAWING_TABLES) {
+        if (data[table] === undefined) continue; // added by an upgrade below
+        if (!Array.isArray(data[table])) throw new Error(`Invalid format: '${table}' must be an array.`);
+        // Records are checked before they are upgraded, as the upgrades rely on their shape
+        data[table] = data[table].filter((record: any, index: number) => {
+            const reason =
+                (table === "bookmarks" ? validateBookmark(record) : validateRecord(table, record, version)) ??
+                (ids.has(record.id) ? "duplicate id" : null) ??
+                // Checked against the items kept so far, which is every other table
+                (table === "connectors" && !(ids.has(record.data.from) && ids.has(record.data.to)) ? "connects an item not in the file" : null);
+            if (reason) {
+                rejected.push({ table, index, ...(typeof record?.id === "string" && { id: record.id }), reason });
+                return false;
+            }
+            ids.add(record.id);
+            return true;
+        });
+    }
+
+    // The HTML is cleaned before the upgrades read it, so what they would silently drop is reported
+    const removed = new Map<string, Set<string>>();
+    for (const card of data.textCards) {
+        const html = sanitizeHtml(card.data.htmlString);
+        card.data.htmlString = html.value;
+        removed.set(card.id, new Set(html.removed));
+    }
+
+    for (let v = version + 1; v <= DRAWING_FORMAT_VERSION; v++) fileUpgrades[v](data);
+    data.formatVersion = DRAWING_FORMAT_VERSION;
+
+    const sanitized: SanitizedRecord[] = [];
+    for (const card of data.textCards as TextCardProperties[]) {
+        const found = removed.get(card.id)!;
+        for (const what of sanitizeCardContent(card.data)) found.add(what);
+        if (found.size > 0) sanitized.push({ table: "textCards", id: card.id, removed: [...found] });
+    }
+    return { data, rejected, sanitized };
+}
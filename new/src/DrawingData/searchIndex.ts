@@ -0,0 +1,166 @@
+// searchIndex.ts
+//
+// Full-text search over text cards. An inverted index from each term to the cards containing it,
+// updated one card at a time as cards are added, edited and deleted, so a search never scans every
+// card. Card content is HTML; it is indexed and shown as plain text.
+
+/** Title matches count this many times more than content matches. */
+const TITLE_WEIGHT = 3;
+/** Characters of context shown before the first match in a snippet, and the snippet length. */
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+
+export type SearchResult = {
+    id: string;
+    score: number;
+    title: Snippet;
+    snippet: Snippet;
+};
+
+/** Plain text with the ranges [start, end) that matched the query. */
+export type Snippet = { text: string; highlights: [number, number][] };
+
+type IndexedCard = { title: string; body: string; length: number };
+
+/** Term frequencies of one card. */
+type Posting = { title: number; body: number };
+
+const BLOCKS = "p, div, br, li, h1, h2, h3, h4, h5, h6, pre, blockquote, tr, td, th";
+
+/** Block elements and line breaks become spaces so words on separate lines do not run together. */
+export function htmlToText(html: string): string {
+    const doc = new DOMParser().parseFromString(html, "text/html");
+    for (const el of doc.body.querySelectorAll(BLOCKS)) el.after(" ");
+    return (doc.body.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+/** Lowercased, without accents, so "Café" is found by "cafe". */
+const normalize = (s: string) => s.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+
+/** Terms with their positions in the original text. */
+function tokenize(text: string): { term: string; start: number; end: number }[] {
+    const tokens: { term: string; start: number; end: number }[] = [];
+    for (const m of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+        tokens.push({ term: normalize(m[0]), start: m.index!, end: m.index! + m[0].length });
+    }
+    return tokens;
+}
+
+export class CardSearchIndex {
+    private cards = new Map<string, IndexedCard>();
+    /** term → card id → frequencies */
+    private postings = new Map<string, Map<string, Posting>>();
+
+    get size(): number {
+        return this.cards.size;
+    }
+
+    /** Indexes a new card or re-indexes an edited one. Unchanged cards are skipped. */
+    setCard(id: string, title: string, html: string): void {
+        const body = htmlToText(html);
+        const old = this.cards.get(id);
+        if (old && old.title === title && old.body === body) return;
+        if (old) this.removeCard(id);
+
+        const titleTerms = tokenize(title).map((t) => t.term);
+        const bodyTerms = tokenize(body).map((t) => t.term);
+        this.cards.set(id, { title, body, length: titleTerms.length + bodyTerms.length });
+        const add = (term: string, field: keyof Posting) => {
+            let docs = this.postings.get(term);
+            if (!docs) this.postings.set(term, (docs = new Map()));
+            let posting = docs.get(id);
+            if (!posting) docs.set(id, (posting = { title: 0, body: 0 }));
+            posting[field]++;
+        };
+        for (const term of titleTerms) add(term, "title");
+        for (const term of bodyTerms) add(term, "body");
+    }
+
+    removeCard(id: string): void {
+        const card = this.cards.get(id);
+        if (!card) return;
+        this.cards.delete(id);
+        for (const { term } of [...tokenize(card.title), ...tokenize(card.body)]) {
+            const docs = this.postings.get(term);
+            if (!docs) continue;
+            docs.delete(id);
+            if (docs.size === 0) this.postings.delete(term);
+        }
+    }
+
+    clear(): void {
+        this.cards.clear();
+        this.postings.clear();
+    }
+
+    /**
+     * Cards containing every word of the query, best first. The last word also matches as a prefix,
+     * so results appear while it is being typed. Scored by term frequency (titles weighted up)
+     * against how common each term is, shorter cards first among equals.
+     */
+    search(query: string, limit = 20): SearchResult[] {
+        const words = [...new Set(tokenize(query).map((t) => t.term))];
+        if (words.length === 0) return [];
+        const last = words[words.length - 1];
+
+        // Each query word stands for the indexed terms it matches
+        const expansions = words.map((word) => {
+            const terms = [word];
+            if (word === last) for (const term of this.postings.keys()) if (term !== word && term.startsWith(word)) terms.push(term);
+            return terms.filter((t) => this.postings.has(t));
+        });
+        if (expansions.some((terms) => terms.length === 0)) return [];
+
+        const n = this.cards.size;
+        let scores: Map<string, number> | null = null;
+        for (const terms of expansions) {
+            const wordScores = new Map<string, number>();
+            for (const term of terms) {
+                const docs = this.postings.get(term)!;
+                const idf = Math.log(1 + n / docs.size);
+                for (const [id, p] of docs) {
+                    if (scores && !scores.has(id)) continue;
+                    const tf = p.title * TITLE_WEIGHT + p.body;
+                    const length = this.cards.get(id)!.length;
+                    wordScores.set(id, (wordScores.get(id) ?? 0) + (idf * tf) / (tf + 1 + length / 100));
+                }
+            }
+            if (scores) for (const [id, s] of wordScores) wordScores.set(id, s + scores.get(id)!);
+            scores = wordScores;
+        }
+
+        const matches = new Set(expansions.flat());
+        return [...scores!]
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, limit)
+            .map(([id, score]) => {
+                const card = this.cards.get(id)!;
+                return { id, score, title: highlight(card.title, matches), snippet: snippet(card.body, matches) };
+            });
+    }
+}
+
+function highlight(text: string, terms: Set<string>): Snippet {
+    const highlights = tokenize(text)
+        .filter((t) => terms.has(t.term))
+        .map((t): [number, number] => [t.start, t.end]);
+    return { text, highlights };
+}
+
+/** A window of the text around its first match, cut at word boundaries. */
+function snippet(text: string, terms: Set<string>): Snippet {
+    if (text.length <= SNIPPET_LENGTH) return highlight(text, terms);
+    const first = tokenize(text).find((t) => terms.has(t.term));
+    let start = Math.max(0, (first?.start ?? 0) - SNIPPET_BEFORE);
+    let end = Math.min(text.length, start + SNIPPET_LENGTH);
+    if (start > 0) start = text.indexOf(" ", start) + 1 || start;
+    if (end < text.length) end = text.lastIndexOf(" ", end) > start ? text.lastIndexOf(" ", end) : end;
+
+    const prefix = start > 0 ? "…" : "";
+    const suffix = end < text.length ? "…" : "";
+    const { text: inner, highlights } = highlight(text.slice(start, end), terms);
+    return {
+        text: prefix + inner + suffix,
+        highlights: highlights.map(([a, b]): [number, number] => [a + prefix.length, b + prefix.length]),
+    };
+}
@@ -0,0 +1,124 @@
+// validation.ts
+//
+// Per-record checks for imported JSON. A file is only as trustworthy as whoever edited it last, so each
+// item is checked on its own and a bad one is reported and dropped instead of failing the whole import.
+
+import type { DrawingTable, ItemTable } from "./migrations";
+
+/** An imported record that was not imported, and why. */
+export type RejectedRecord = { table: DrawingTable; index: number; id?: string; reason: string };
+
+/** An imported record whose content had markup or links removed before it was imported. */
+export type SanitizedRecord = { table: ItemTable; id: string; removed: string[] };
+
+const DATA_TYPES: Record<ItemTable, string> = {
+    strokes: "stroke-rect",
+    textCards: "text-card",
+    wormholes: "wormhole-card",
+    connectors: "connector",
+};
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const isIntegerString = (v: unknown) => typeof v === "string" && /^-?\d+$/.test(v);
+
+const isBBox = (v: Record<string, any>) => ["x", "y", "width", "height"].every((k) => isFiniteNumber(v[k]));
+
+const isZoom = (v: unknown) => isObject(v) && Number.isInteger(v.zoomExp) && isFiniteNumber(v.localScale) && v.localScale > 0;
+
+const MARK_NAMES = new Set(["bold", "italic", "underline", "strike", "code"]);
+
+const isTextRun = (v: unknown) =>
+    isObject(v) &&
+    typeof v.text === "string" &&
+    (v.marks === undefined || (Array.isArray(v.marks) && v.marks.every((m) => MARK_NAMES.has(m)))) &&
+    (v.href === undefined || typeof v.href === "string");
+
+function isBlock(v: unknown): boolean {
+    if (!isObject(v) || !Array.isArray(v.content) || !v.content.every(isTextRun)) return false;
+    switch (v.type) {
+        case "paragraph":
+        case "bullet":
+        case "ordered":
+            return true;
+        case "heading":
+            return [1, 2, 3].includes(v.level);
+        case "task":
+            return typeof v.checked === "boolean";
+        default:
+            return false;
+    }
+}
+
+const isRichDoc = (v: unknown) => isObject(v) && Array.isArray(v.blocks) && v.blocks.every(isBlock);
+
+const isAnchor = (v: unknown) => isObject(v) && isIntegerString(v.x) && isIntegerString(v.y) && Number.isInteger(v.exp);
+
+/**
+ * Why a record of `table` from a file of format `version` cannot be imported, or null if it can.
+ * Fields added by a later version than the file's are filled in by the upgrades in migrations.ts.
+ */
+export function validateRecord(table: ItemTable, record: unknown, version: number): string | null {
+    if (!isObject(record)) return "not an object";
+    if (typeof record.id !== "string" || record.id === "") return "missing id";
+    if (!isBBox(record)) return "bbox must be finite numbers";
+    if (record.anchor !== undefined && !isAnchor(record.anchor)) return "malformed anchor";
+    if (record.createdAt !== undefined && !isFiniteNumber(record.createdAt)) return "createdAt must be a number";
+
+    const data = record.data;
+    if (!isObject(data)) return "missing data";
+    if (data.type !== DATA_TYPES[table]) return `data.type must be "${DATA_TYPES[table]}"`;
+
+    switch (table) {
+        case "strokes":
+            return validateStroke(data);
+        case "textCards":
+            if (!isZoom(data.zoom)) return "malformed zoom";
+            if (typeof data.title !== "string" || typeof data.htmlString !== "string") return "title and htmlString must be strings";
+            if (version >= 4 ? !isRichDoc(data.doc) : data.doc !== undefined) return "malformed doc";
+            return null;
+        case "wormholes":
+            if (!isZoom(data.zoom)) return "malformed zoom";
+            if (typeof data.title !== "string") return "title must be a string";
+            if (!isObject(data.targetPosition) || !isBBox(data.targetPosition) || !isZoom(data.targetPosition.zoom)) return "malformed targetPosition";
+            if (data.targetPosition.center !== undefined && !isAnchor(data.targetPosition.center)) return "malformed targetPosition.center";
+            return null;
+        case "connectors":
+            return validateConnector(data);
+    }
+}
+
+/** Why a bookmark cannot be imported, or null if it can. Bookmarks have been stored since version 6. */
+export function validateBookmark(record: unknown): string | null {
+    if (!isObject(record)) return "not an object";
+    if (typeof record.id !== "string" || record.id === "") return "missing id";
+    if (typeof record.name !== "string") return "name must be a string";
+    if (!isFiniteNumber(record.order) || !isFiniteNumber(record.createdAt)) return "order and createdAt must be numbers";
+    const { camera } = record;
+    if (!isObject(camera) || !isBBox(camera) || !isZoom(camera.zoom)) return "malformed camera";
+    if (camera.center !== undefined && !isAnchor(camera.center)) return "malformed camera.center";
+    return null;
+}
+
+/** Whether the ends exist is checked against the whole file, in migrateDrawingData. */
+function validateConnector(data: Record<string, any>): string | null {
+    const { from, to, arrows, stroke } = data;
+    if (typeof from !== "string" || from === "" || typeof to !== "string" || to === "") return "from and to must be item ids";
+    if (from === to) return "connects an item to itself";
+    if (!isZoom(data.zoom)) return "malformed zoom";
+    if (!isObject(arrows) || typeof arrows.start !== "boolean" || typeof arrows.end !== "boolean") return "malformed arrows";
+    if (!isObject(stroke) || !isFiniteNumber(stroke.width) || stroke.width <= 0 || !isFiniteNumber(stroke.color)) return "malformed stroke style";
+    if (data.label !== undefined && typeof data.label !== "string") return "label must be a string";
+    return null;
+}
+
+function validateStroke(data: Record<string, any>): string | null {
+    const { pts, pressure, stroke } = data;
+    if (!Array.isArray(pts) || pts.length === 0) return "stroke has no points";
+    if (!pts.every((p) => Array.isArray(p) && p.length === 2 && isFiniteNumber(p[0]) && isFiniteNumber(p[1]))) return "stroke points must be [x, y] numbers";
+    if (pressure !== undefined && (!Array.isArray(pressure) || pressure.length !== pts.length || !pressure.every(isFiniteNumber))) {
+        return "pressure must be one number per point";
+    }
+    if (!isObject(stroke) || !isFiniteNumber(stroke.width) || stroke.width <= 0 || !isFiniteNumber(stroke.color)) return "malformed stroke style";
+    return null;
+}
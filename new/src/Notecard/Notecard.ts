@@ -1,12 +1,42 @@
 // Notecard/Notecard.ts
+import { docToMarkdown, markdownToDoc } from "./markdown";
+import { BlockType, docToHtml, htmlToDoc, RichDoc, safeHref, textToDoc } from "./richText";
+import { blockTypeAt, captureEditor, DocRange, insertDoc, linkAt, setBlockType, setEditorSelection, setLink, toggleMark, toggleTask } from "./richTextEditing";
+import { sanitizeHtml } from "./sanitize";
+
+const BLOCK_OPTIONS: [string, string][] = [
+    ["paragraph", "Text"],
+    ["heading1", "Heading 1"],
+    ["heading2", "Heading 2"],
+    ["heading3", "Heading 3"],
+    ["bullet", "Bullet list"],
+    ["ordered", "Numbered list"],
+    ["task", "Checklist"],
+];
+
+export type CardGesture = "move" | "resize";
+
+/** Width (CSS px) of the checkbox drawn before a checklist item. */
+const CHECKBOX_PX = 22;
 
 export class Notecard {
     private element: HTMLDivElement;
     private topBar: HTMLDivElement;
     private titleSpan: HTMLSpanElement;
     private contentArea: HTMLDivElement; // Declared here
+    /** Replaces contentArea while the card is edited as Markdown. */
+    private markdownArea: HTMLTextAreaElement;
     private deleteButton: HTMLButtonElement;
+    /** Banner under the top bar while a conflicting edit from elsewhere needs resolving. */
+    private conflictBanner: HTMLDivElement | null = null;
     id: string;
+    /**
+     * Called while the card is dragged by its top bar or resized by its corner, with the pointer's
+     * movement in screen px since the gesture began, and once more with `done` when it ends.
+     */
+    onGesture: ((kind: CardGesture, dx: number, dy: number, done: boolean) => void) | null = null;
+    /** Called with the new content after a toolbar command or a Markdown edit. Typing is reported by input events. */
+    onDocChange: ((doc: RichDoc) => void) | null = null;
 
     constructor(x: number, y: number, width: number = 300, height: number = 200, id: string = crypto.randomUUID(), onDelete: (notecard: Notecard) => void = () => {}) {
         this.id = id;
@@ -69,78 +99,115 @@ export class Notecard {
         // Inserting it before the delete button using insertBefore is precise.
         this.topBar.insertBefore(controlsContainer, this.deleteButton);
 
-        // Font Family Selector
-        const fontSelect = document.createElement("select");
-        fontSelect.classList.add("notecard-font-select");
-        const fonts = ["Courier New", "Arial", "Verdana", "Georgia", "Times New Roman"];
-        fonts.forEach((font) => {
-            const option = document.createElement("option");
-            option.value = font;
-            option.textContent = font;
-            fontSelect.appendChild(option);
-        });
-        fontSelect.addEventListener("change", (e) => {
-            document.execCommand("fontName", false, (e.target as HTMLSelectElement).value);
-            this.contentArea.focus();
-        });
-        controlsContainer.appendChild(fontSelect);
-
-        // Font Size Selector
-        const sizeSelect = document.createElement("select");
-        sizeSelect.classList.add("notecard-size-select");
-        const sizes = ["1", "2", "3", "4", "5", "6", "7"];
-        sizes.forEach((size) => {
-            const option = document.createElement("option");
-            option.value = size;
-            option.textContent = `${parseInt(size) * 3 + 10}px`;
-            sizeSelect.appendChild(option);
-        });
-        sizeSelect.addEventListener("change", (e) => {
-            document.execCommand("fontSize", false, (e.target as HTMLSelectElement).value);
-            this.contentArea.focus();
+        // Block type: paragraph, headings and lists. Commands act on the document model (see richTextEditing)
+        const blockSelect = document.createElement("select");
+        blockSelect.classList.add("notecard-block-select");
+        for (const [value, label] of BLOCK_OPTIONS) blockSelect.appendChild(new Option(label, value));
+        // The select takes focus from the content, so the selection is read before it does
+        let pending: ReturnType<typeof captureEditor> | null = null;
+        blockSelect.addEventListener("pointerdown", () => {
+            pending = captureEditor(this.contentArea);
+            if (pending.range) blockSelect.value = blockTypeAt(pending.doc, pending.range);
         });
-        controlsContainer.appendChild(sizeSelect);
-
-        // Text Color Input
-        const colorInput = document.createElement("input");
-        colorInput.type = "color";
-        colorInput.classList.add("notecard-color-input");
-        colorInput.value = "#333333";
-        colorInput.addEventListener("input", (e) => {
-            document.execCommand("foreColor", false, (e.target as HTMLInputElement).value);
+        blockSelect.addEventListener("change", () => {
+            const [type, level] = blockSelect.value.startsWith("heading") ? (["heading", Number(blockSelect.value.slice(7))] as const) : ([blockSelect.value as BlockType, 1] as const);
+            const captured = pending ?? captureEditor(this.contentArea);
+            pending = null;
+            if (!captured.range) return;
             this.contentArea.focus();
+            this.applyEdit(captured.doc, captured.range, setBlockType(captured.doc, captured.range, type, level as 1 | 2 | 3));
         });
-        controlsContainer.appendChild(colorInput);
+        controlsContainer.appendChild(blockSelect);
 
-        // Typographical Emphasis Buttons - this function is now safe to call
-        const createEmphasisButton = (command: string, text: string) => {
+        // Inline marks and links. mousedown is cancelled so the content keeps focus and selection
+        const createCommandButton = (text: string, title: string, command: (doc: RichDoc, range: DocRange) => RichDoc | null) => {
             const button = document.createElement("button");
             button.classList.add("notecard-emphasis-button");
             button.textContent = text;
-
-            // This line should now work correctly because this.contentArea is defined
-            this.contentArea.addEventListener("selectionchange", () => {
-                if (document.queryCommandState(command)) {
-                    button.classList.add("active-style");
-                } else {
-                    button.classList.remove("active-style");
-                }
-            });
-
+            button.title = title;
+            button.addEventListener("mousedown", (e) => e.preventDefault());
             button.addEventListener("click", () => {
-                document.execCommand(command, false);
-                this.contentArea.focus();
+                const { doc, range } = captureEditor(this.contentArea);
+                if (!range) return;
+                const next = command(doc, range);
+                if (next) this.applyEdit(doc, range, next);
             });
             return button;
         };
 
-        controlsContainer.appendChild(createEmphasisButton("bold", "B"));
-        controlsContainer.appendChild(createEmphasisButton("italic", "I"));
-        controlsContainer.appendChild(createEmphasisButton("underline", "U"));
-        controlsContainer.appendChild(createEmphasisButton("strikeThrough", "S"));
+        controlsContainer.appendChild(createCommandButton("B", "Bold", (doc, range) => toggleMark(doc, range, "bold")));
+        controlsContainer.appendChild(createCommandButton("I", "Italic", (doc, range) => toggleMark(doc, range, "italic")));
+        controlsContainer.appendChild(createCommandButton("U", "Underline", (doc, range) => toggleMark(doc, range, "underline")));
+        controlsContainer.appendChild(createCommandButton("S", "Strikethrough", (doc, range) => toggleMark(doc, range, "strike")));
+        controlsContainer.appendChild(createCommandButton("<>", "Code", (doc, range) => toggleMark(doc, range, "code")));
+        controlsContainer.appendChild(
+            createCommandButton("link", "Link (empty to remove)", (doc, range) => {
+                const input = prompt("Link address", linkAt(doc, range) ?? "https://");
+                if (input === null) return null;
+                if (input.trim() === "") return setLink(doc, range, null);
+                const href = safeHref(input);
+                return href ? setLink(doc, range, href) : null;
+            })
+        );
+
+        // Markdown source of the whole card, edited in place of the rich text
+        this.markdownArea = document.createElement("textarea");
+        this.markdownArea.classList.add("notecard-markdown");
+        this.markdownArea.hidden = true;
+        this.markdownArea.spellcheck = false;
+        this.markdownArea.addEventListener("blur", () => this.onDocChange?.(markdownToDoc(this.markdownArea.value)));
+        this.element.appendChild(this.markdownArea);
+
+        const markdownButton = document.createElement("button");
+        markdownButton.classList.add("notecard-emphasis-button");
+        markdownButton.textContent = "MD";
+        markdownButton.title = "Edit as Markdown";
+        markdownButton.addEventListener("click", () => {
+            const editing = !this.markdownArea.hidden;
+            markdownButton.classList.toggle("active-style", !editing);
+            if (editing) {
+                const doc = markdownToDoc(this.markdownArea.value);
+                this.setDoc(doc);
+                this.onDocChange?.(doc);
+            } else {
+                this.markdownArea.value = docToMarkdown(this.getDoc());
+            }
+            this.markdownArea.hidden = editing;
+            this.contentArea.hidden = !editing;
+            (editing ? this.contentArea : this.markdownArea).focus();
+        });
+        controlsContainer.appendChild(markdownButton);
 
-        // Add event listeners for basic dragging
-        this.makeDraggable();
+        // Checklist items are ticked by clicking their box, drawn before the text by CSS
+        this.contentArea.addEventListener("click", (e) => {
+            const li = (e.target as HTMLElement).closest?.("li[data-checked]");
+            if (!li || e.offsetX > CHECKBOX_PX || e.target !== li) return;
+            const at = document.createRange();
+            at.setStart(li, 0);
+            const { doc, range } = captureEditor(this.contentArea, at);
+            if (range) this.applyEdit(doc, range, toggleTask(doc, range.start.block));
+        });
+
+        // Pasted HTML is sanitized and read into the model; nothing from the clipboard reaches the DOM as is
+        this.contentArea.addEventListener("paste", (e) => {
+            const data = e.clipboardData;
+            if (!data) return;
+            e.preventDefault();
+            const html = data.getData("text/html");
+            const fragment = html ? htmlToDoc(sanitizeHtml(html).value) : textToDoc(data.getData("text/plain"));
+            const { doc, range } = captureEditor(this.contentArea);
+            if (!range) return;
+            const { doc: next, caret } = insertDoc(doc, range, fragment);
+            this.applyEdit(doc, { start: caret, end: caret }, next);
+        });
+
+        // Move by the top bar (outside its title and buttons), resize by the bottom-right corner
+        this.trackGesture(this.topBar, "move", (target) => target === this.titleSpan || !!target.closest(".notecard-controls") || target === this.deleteButton);
+        const resizeHandle = document.createElement("div");
+        resizeHandle.classList.add("notecard-resize-handle");
+        resizeHandle.title = "Resize";
+        this.element.appendChild(resizeHandle);
+        this.trackGesture(resizeHandle, "resize");
     }
 
     // ... (rest of the Notecard class methods)
@@ -148,12 +215,22 @@ export class Notecard {
         return this.element;
     }
 
-    public getContent(): string {
-        return this.contentArea.innerHTML;
+    /** The content as shown, including typing not saved yet. */
+    public getDoc(): RichDoc {
+        return this.markdownArea.hidden ? htmlToDoc(this.contentArea.innerHTML) : markdownToDoc(this.markdownArea.value);
     }
 
-    public setContent(html: string): void {
-        this.contentArea.innerHTML = html;
+    public setDoc(doc: RichDoc): void {
+        this.contentArea.innerHTML = docToHtml(doc);
+        if (document.activeElement !== this.markdownArea) this.markdownArea.value = docToMarkdown(doc);
+    }
+
+    /** Shows the result of a command, keeping the selection, and reports it. */
+    private applyEdit(before: RichDoc, range: DocRange, doc: RichDoc): void {
+        if (docToHtml(doc) === docToHtml(before)) return;
+        this.contentArea.innerHTML = docToHtml(doc);
+        setEditorSelection(this.contentArea, range);
+        this.onDocChange?.(doc);
     }
 
     public getTitle(): string {
@@ -164,35 +241,62 @@ export class Notecard {
         this.titleSpan.textContent = title;
     }
 
-    private makeDraggable(): void {
-        let isDragging = false;
-        let offsetX: number, offsetY: number;
-
-        this.topBar.addEventListener("mousedown", (e: MouseEvent) => {
-            if (e.target === this.titleSpan || (e.target as HTMLElement).closest(".notecard-controls") || e.target === this.deleteButton) {
-                return;
-            }
-            isDragging = true;
-            offsetX = e.clientX - this.element.getBoundingClientRect().left;
-            offsetY = e.clientY - this.element.getBoundingClientRect().top;
-            this.element.style.cursor = "grabbing";
-            this.element.style.zIndex = "1000";
-        });
+    public isEditing(): boolean {
+        return this.element.contains(document.activeElement) && [this.titleSpan, this.contentArea, this.markdownArea].includes(document.activeElement as HTMLElement);
+    }
 
-        document.addEventListener("mousemove", (e: MouseEvent) => {
-            if (!isDragging) return;
+    /** Shows a banner with a message and buttons, replacing any previous one. */
+    public showConflict(message: string, actions: { label: string; run: () => void }[]): void {
+        this.clearConflict();
+        const banner = document.createElement("div");
+        banner.classList.add("notecard-conflict");
+        const text = document.createElement("span");
+        text.textContent = message;
+        banner.appendChild(text);
+        for (const { label, run } of actions) {
+            const button = document.createElement("button");
+            button.textContent = label;
+            button.addEventListener("click", run);
+            banner.appendChild(button);
+        }
+        this.element.insertBefore(banner, this.contentArea);
+        this.conflictBanner = banner;
+    }
 
-            const newX = e.clientX - offsetX;
-            const newY = e.clientY - offsetY;
+    public clearConflict(): void {
+        this.conflictBanner?.remove();
+        this.conflictBanner = null;
+    }
 
-            this.element.style.left = `${newX}px`;
-            this.element.style.top = `${newY}px`;
-        });
+    /**
+     * Reports pointer drags that start on `handle` to onGesture. The pointer is captured, so one card
+     * listens only while it is being dragged, and mouse, touch and pen all work the same way.
+     */
+    private trackGesture(handle: HTMLElement, kind: CardGesture, ignore: (target: HTMLElement) => boolean = () => false): void {
+        handle.addEventListener("pointerdown", (e: PointerEvent) => {
+            if (e.button !== 0 || ignore(e.target as HTMLElement)) return;
+            e.preventDefault();
+            handle.setPointerCapture(e.pointerId);
+            this.element.classList.add("dragging");
+            const startX = e.clientX;
+            const startY = e.clientY;
 
-        document.addEventListener("mouseup", () => {
-            isDragging = false;
-            this.element.style.cursor = "grab";
-            this.element.style.zIndex = "auto";
+            const move = (ev: PointerEvent) => {
+                if (ev.pointerId === e.pointerId) this.onGesture?.(kind, ev.clientX - startX, ev.clientY - startY, false);
+            };
+            const end = (ev: PointerEvent) => {
+                if (ev.pointerId !== e.pointerId) return;
+                handle.removeEventListener("pointermove", move);
+                handle.removeEventListener("pointerup", end);
+                handle.removeEventListener("pointercancel", end);
+                this.element.classList.remove("dragging");
+                // A cancelled gesture (e.g. the browser took over a touch) leaves the card where it was
+                const done = ev.type === "pointerup";
+                this.onGesture?.(kind, done ? ev.clientX - startX : 0, done ? ev.clientY - startY : 0, true);
+            };
+            handle.addEventListener("pointermove", move);
+            handle.addEventListener("pointerup", end);
+            handle.addEventListener("pointercancel", end);
         });
     }
 }
@@ -0,0 +1,305 @@
+// Notecard/markdown.ts
+//
+// Markdown import and export of card documents. Export writes CommonMark (plus ~~strike~~ and
+// - [ ] task items) that reads back into the same document; underline, which Markdown lacks, is
+// written as <u>…</u>. Import reads the common subset: ATX headings, bullet, numbered and task lists,
+// emphasis, code spans, fenced code, links and autolinks. Anything else is kept as text.
+
+import { Block, Mark, normalizeRuns, RichDoc, safeHref, TextRun } from "./richText";
+
+// ─── Export ───────────────────────────────────────────────────────────────────
+
+/** Delimiters of the marks Markdown has, in MARKS order. Code is written separately. */
+const DELIMITERS: Partial<Record<Mark, [string, string]>> = {
+    bold: ["**", "**"],
+    italic: ["_", "_"],
+    underline: ["<u>", "</u>"],
+    strike: ["~~", "~~"],
+};
+
+const escapeMarkdown = (s: string) => s.replace(/[\\`*_[\]~<>]/g, "\\$&");
+
+/** Text at the start of a line that would read as a block marker (others are escaped everywhere). */
+function escapeLineStart(s: string): string {
+    if (/^(#{1,6}|[-+])( |$)/.test(s)) return "\\" + s;
+    return s.replace(/^(\d+)([.)])(?= |$)/, "$1\\$2");
+}
+
+function codeSpan(text: string): string {
+    const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((m) => m.length));
+    const fence = "`".repeat(longest + 1);
+    const pad = text.startsWith("`") || text.endsWith("`") ? " " : "";
+    return fence + pad + text + pad + fence;
+}
+
+/**
+ * Runs without links as Markdown. Marks stay open across runs that share them, and whitespace at the
+ * edge of a marked stretch is moved outside its delimiters, where Markdown requires it.
+ */
+function marksToMarkdown(runs: TextRun[], lineBreak: string): string {
+    let out = "";
+    const open: Mark[] = [];
+    let pendingSpace = "";
+    const close = (keep: number) => {
+        while (open.length > keep) out += DELIMITERS[open.pop()!]![1];
+    };
+
+    for (const run of runs) {
+        const marks: Mark[] = (run.marks ?? []).filter((m) => m !== "code");
+        let keep = 0;
+        while (keep < open.length && marks.includes(open[keep])) keep++;
+        const opening = marks.filter((m) => !open.slice(0, keep).includes(m));
+
+        const [, lead, body, trail] = run.text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+        close(keep);
+        out += pendingSpace + lead;
+        if (body === "") {
+            pendingSpace = trail;
+            continue;
+        }
+        for (const m of opening) {
+            out += DELIMITERS[m]![0];
+            open.push(m);
+        }
+        const text = run.marks?.includes("code") ? codeSpan(body) : escapeMarkdown(body);
+        out += text.replace(/\n/g, lineBreak);
+        pendingSpace = trail;
+    }
+    close(0);
+    return out + pendingSpace;
+}
+
+function inlineToMarkdown(runs: TextRun[], lineBreak: string): string {
+    let out = "";
+    for (let i = 0; i < runs.length; ) {
+        const href = runs[i].href;
+        let j = i;
+        while (j < runs.length && runs[j].href === href) j++;
+        const group = runs.slice(i, j);
+        if (href === undefined) out += marksToMarkdown(group, lineBreak);
+        else out += `[${marksToMarkdown(group, lineBreak)}](<${href.replace(/[<>]/g, encodeURIComponent)}>)`;
+        i = j;
+    }
+    return out;
+}
+
+export function docToMarkdown(doc: RichDoc): string {
+    const lines: string[] = [];
+    let number = 0;
+    let prev: Block | null = null;
+    for (const block of doc.blocks) {
+        const isItem = block.type === "bullet" || block.type === "ordered" || block.type === "task";
+        // Items of one list on consecutive lines; everything else separated by a blank line
+        if (prev && !(isItem && prev.type === block.type)) lines.push("");
+        number = block.type === "ordered" && prev?.type === "ordered" ? number + 1 : 1;
+
+        let marker = "";
+        if (block.type === "heading") marker = "#".repeat(block.level) + " ";
+        else if (block.type === "bullet") marker = "- ";
+        else if (block.type === "ordered") marker = `${number}. `;
+        else if (block.type === "task") marker = block.checked ? "- [x] " : "- [ ] ";
+
+        // Headings are one line; list items continue under their marker
+        const content = block.type === "heading" ? block.content.map((r) => ({ ...r, text: r.text.replace(/\n/g, " ") })) : block.content;
+        const indent = block.type === "task" ? "  " : " ".repeat(marker.length);
+        const text = inlineToMarkdown(content, "\\\n" + indent);
+        lines.push(marker + (marker ? text : escapeLineStart(text)));
+        prev = block;
+    }
+    return lines.join("\n") + (lines.length > 0 ? "\n" : "");
+}
+
+// ─── Import ───────────────────────────────────────────────────────────────────
+
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const TASK = /^ {0,3}[-*+]\s+\[([ xX])\](?:\s+(.*))?$/;
+const BULLET = /^ {0,3}[-*+](?:\s+(.*))?$/;
+const ORDERED = /^ {0,3}\d{1,9}[.)](?:\s+(.*))?$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const RULE = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+
+type PendingBlock = { block: Block; lines: string[] };
+
+export function markdownToDoc(markdown: string): RichDoc {
+    const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+    const blocks: Block[] = [];
+    let current: PendingBlock | null = null;
+    const flush = () => {
+        if (!current) return;
+        current.block.content = parseInline(current.lines.join("\n").trimEnd());
+        blocks.push(current.block);
+        current = null;
+    };
+    const start = (block: Block, text: string | undefined) => {
+        flush();
+        current = { block, lines: [text ?? ""] };
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        let m: RegExpMatchArray | null;
+
+        const fence = line.match(FENCE);
+        if (fence) {
+            // A code block is a paragraph in code, its lines kept as line breaks
+            flush();
+            const code: string[] = [];
+            for (i++; i < lines.length && !lines[i].trimStart().startsWith(fence[1]); i++) code.push(lines[i]);
+            blocks.push({ type: "paragraph", content: normalizeRuns([{ text: code.join("\n"), marks: ["code"] }]) });
+            continue;
+        }
+        if (line.trim() === "") flush();
+        else if (RULE.test(line)) flush();
+        else if ((m = line.match(HEADING))) {
+            start({ type: "heading", level: Math.min(m[1].length, 3) as 1 | 2 | 3, content: [] }, m[2]);
+            flush();
+        } else if ((m = line.match(TASK))) start({ type: "task", checked: m[1] !== " ", content: [] }, m[2]);
+        else if ((m = line.match(BULLET))) start({ type: "bullet", content: [] }, m[1]);
+        else if ((m = line.match(ORDERED))) start({ type: "ordered", content: [] }, m[1]);
+        else if (current) (current as PendingBlock).lines.push(line.trimStart());
+        else start({ type: "paragraph", content: [] }, line.replace(/^ {0,3}>\s?/, "").trimStart());
+    }
+    flush();
+    return { blocks };
+}
+
+/** Joins a block's lines: a trailing backslash or two spaces is a line break, any other newline a space. */
+function joinLines(text: string): string {
+    return text.replace(/(\\| {2,})\n/g, "\u0000").replace(/\s*\n\s*/g, " ").replace(/\u0000/g, "\n");
+}
+
+const PUNCTUATION = /[!-/:-@[-`{-~]/;
+
+/** Where the delimiter closing one opened at `from` is, skipping escapes and code spans. */
+function findClose(s: string, from: number, delim: string): number {
+    for (let i = from; i < s.length; i++) {
+        if (s[i] === "\\") {
+            i++;
+            continue;
+        }
+        if (s[i] === "`") {
+            const ticks = s.slice(i).match(/^`+/)![0];
+            const end = s.indexOf(ticks, i + ticks.length);
+            if (end >= 0) i = end + ticks.length - 1;
+            continue;
+        }
+        if (s.startsWith(delim, i) && i > from && !/\s/.test(s[i - 1])) {
+            // A single * or _ does not close on half of a doubled one
+            if (delim.length === 1 && s[i + 1] === delim) {
+                i++;
+                continue;
+            }
+            return i;
+        }
+    }
+    return -1;
+}
+
+const INLINE_DELIMITERS: [string, Mark][] = [
+    ["**", "bold"],
+    ["__", "bold"],
+    ["~~", "strike"],
+    ["*", "italic"],
+    ["_", "italic"],
+];
+
+function parseInline(source: string): TextRun[] {
+    const out: TextRun[] = [];
+    parseSpan(joinLines(source), [], undefined, out);
+    return normalizeRuns(out);
+}
+
+function parseSpan(s: string, marks: Mark[], href: string | undefined, out: TextRun[]): void {
+    let text = "";
+    const emit = (t: string, extra: Mark[] = [], link = href) => out.push({ text: t, marks: [...marks, ...extra], ...(link !== undefined && { href: link }) });
+    const flushText = () => {
+        if (text) emit(text);
+        text = "";
+    };
+
+    for (let i = 0; i < s.length; ) {
+        const c = s[i];
+        if (c === "\\" && i + 1 < s.length && PUNCTUATION.test(s[i + 1])) {
+            text += s[i + 1];
+            i += 2;
+            continue;
+        }
+        if (c === "`") {
+            const ticks = s.slice(i).match(/^`+/)![0];
+            const end = s.indexOf(ticks, i + ticks.length);
+            if (end >= 0) {
+                flushText();
+                let code = s.slice(i + ticks.length, end);
+                if (code.length > 2 && code.startsWith(" ") && code.endsWith(" ")) code = code.slice(1, -1);
+                emit(code, ["code"]);
+                i = end + ticks.length;
+                continue;
+            }
+        }
+        if (s.startsWith("<u>", i)) {
+            const end = s.indexOf("</u>", i + 3);
+            if (end >= 0) {
+                flushText();
+                parseSpan(s.slice(i + 3, end), [...marks, "underline"], href, out);
+                i = end + 4;
+                continue;
+            }
+        }
+        if (c === "<") {
+            const auto = s.slice(i).match(/^<((?:https?:|mailto:)[^\s<>]*)>/i);
+            if (auto) {
+                flushText();
+                emit(auto[1], [], safeHref(auto[1]) ?? href);
+                i += auto[0].length;
+                continue;
+            }
+        }
+        if (c === "[" && href === undefined) {
+            const link = matchLink(s, i);
+            if (link) {
+                flushText();
+                parseSpan(link.label, marks, safeHref(link.href) ?? undefined, out);
+                i = link.end;
+                continue;
+            }
+        }
+        const delimiter = INLINE_DELIMITERS.find(([d]) => s.startsWith(d, i));
+        if (delimiter && i + delimiter[0].length < s.length && !/\s/.test(s[i + delimiter[0].length])) {
+            const [d, mark] = delimiter;
+            // Underscores inside words are not emphasis
+            const intraword = d[0] === "_" && i > 0 && /[\p{L}\p{N}]/u.test(s[i - 1]);
+            const end = intraword ? -1 : findClose(s, i + d.length, d);
+            if (end >= 0) {
+                flushText();
+                parseSpan(s.slice(i + d.length, end), [...marks, mark], href, out);
+                i = end + d.length;
+                continue;
+            }
+        }
+        text += c;
+        i++;
+    }
+    flushText();
+}
+
+/** A [label](href) or [label](<href>) link starting at `i`. */
+function matchLink(s: string, i: number): { label: string; href: string; end: number } | null {
+    let depth = 0;
+    let j = i;
+    for (; j < s.length; j++) {
+        if (s[j] === "\\") j++;
+        else if (s[j] === "[") depth++;
+        else if (s[j] === "]" && --depth === 0) break;
+    }
+    if (j >= s.length || s[j + 1] !== "(") return null;
+    const rest = s.slice(j + 2);
+    const m = rest.match(/^<([^<>\n]*)>\)/) ?? rest.match(/^([^\s()]*)(?:\s+"[^"]*")?\)/);
+    if (!m) return null;
+    let target = m[1];
+    try {
+        target = decodeURI(target);
+    } catch {
+        // Left as written
+    }
+    return { label: s.slice(i + 1, j), href: target, end: j + 2 + m[0].length };
+}
@@ -1,8 +1,16 @@
 /* canvas/NotecardOverlay.ts ---------------------------------------------- */
 import { BBox, isTextCard, QuadItem, TextCardData, TextCardProperties } from "../canvas/types";
 import type { CanvasView } from "../canvas/CanvasView";
-import { Notecard } from "../Notecard/Notecard";
+import { CardGesture, Notecard } from "../Notecard/Notecard";
 import { appStore } from "../appState";
+import { Anchor, deepOffset, deepToWorld, itemFrame, itemLocalBBox, toAnchor } from "../canvas/deepCoords";
+import { docToHtml } from "./richText";
+
+/** Cards wider than this on screen are hidden; browsers cannot place transforms that large reliably. */
+const MAX_SCREEN_PX = 1e5;
+/** Smallest card size, in CSS px at the card's own zoom. */
+const MIN_CARD_PX = { width: 200, height: 150 };
+
 const debounce = (fn: () => void, ms = 400) => {
     let t: number | undefined;
     return () => {
@@ -10,17 +18,36 @@ const debounce = (fn: () => void, ms = 400) => {
         t = window.setTimeout(fn, ms);
     };
 };
+/** The parts of a card a conflict is about. */
+export type CardText = Pick<TextCardData, "title" | "doc">;
+
+/** An edit to a card made in another tab or client while this one edited it too. */
+export type CardConflict = {
+    /** Who made the other edit, e.g. "tab 3f2a". */
+    from: string;
+    at: number;
+    mine: CardText;
+    theirs: CardText;
+};
+
 export class NotecardOverlay {
     /** Absolutely‑positioned container that sits on top of one canvas */
     private host: HTMLDivElement;
     readonly view: CanvasView;
     /** id → DOM element */
     private notecards = new Map<string, Notecard>();
+    /** Unresolved conflicts by card id, kept while the card is off screen. */
+    private conflicts = new Map<string, CardConflict>();
 
     /** Incremented every frame so we can GC unused cards */
     private frame = 0;
     handleDelete: (id: string) => Promise<void>;
-    updateTextCard: (id: string, patch: Partial<TextCardData>, newBBox?: Partial<BBox>) => Promise<void>;
+    updateTextCard: (id: string, patch: Partial<TextCardData>, newBBox?: Partial<BBox> & { anchor?: Anchor }, options?: { historyGroup?: string }) => Promise<void>;
+    /**
+     * The card being moved or resized, the pointer's movement so far in screen px, and the placement
+     * it started from. Shown until the card's placement changes, i.e. until the gesture is saved.
+     */
+    private gesture: { id: string; kind: CardGesture; dx: number; dy: number; from: { anchor: Anchor | undefined; width: number; height: number } } | null = null;
 
     constructor(view: CanvasView) {
         this.host = document.createElement("div");
@@ -58,8 +85,9 @@ export class NotecardOverlay {
         // ---- Title -----------------------------------------------------
         const titleEl = root.querySelector<HTMLSpanElement>(".notecard-title");
         if (titleEl && !titleEl.dataset.bound) {
-            titleEl.addEventListener("blur", () => {
-                this.updateTextCard(id, { title: titleEl.innerText.trim() });
+            titleEl.addEventListener("blur", async () => {
+                await this.updateTextCard(id, { title: titleEl.innerText.trim() });
+                this.resync(id);
             });
             titleEl.dataset.bound = "true";
         }
@@ -67,19 +95,60 @@ export class NotecardOverlay {
         // ---- Content ---------------------------------------------------
         const contentEl = root.querySelector<HTMLDivElement>(".notecard-content");
         if (contentEl && !contentEl.dataset.bound) {
+            // All saves between focus and blur are one undo step
+            const historyGroup = `content:${id}`;
             // Commit on blur (guaranteed) …
-            contentEl.addEventListener("blur", () => {
-                this.updateTextCard(id, { htmlString: contentEl.innerHTML });
+            contentEl.addEventListener("blur", async () => {
+                await this.updateTextCard(id, { doc: note.getDoc() }, undefined, { historyGroup });
+                this.view.model.endHistoryGroup(historyGroup);
+                this.resync(id);
             });
             // …and on‑type with debounce for live sync
             contentEl.addEventListener(
                 "input",
                 debounce(() => {
-                    this.updateTextCard(id, { htmlString: contentEl.innerHTML });
+                    this.updateTextCard(id, { doc: note.getDoc() }, undefined, { historyGroup });
                 })
             );
+            // Toolbar commands and Markdown edits save at once
+            note.onDocChange = async (doc) => {
+                await this.updateTextCard(id, { doc }, undefined, { historyGroup });
+                this.resync(id);
+            };
             contentEl.dataset.bound = "true";
         }
+
+        // ---- Move / resize --------------------------------------------
+        note.onGesture = (kind, dx, dy, done) => {
+            const card = this.view.model.store.getState().textCards[id];
+            if (!card) return;
+            const from = this.gesture?.id === id ? this.gesture.from : { anchor: card.anchor, width: card.width, height: card.height };
+            this.gesture = { id, kind, dx, dy, from };
+            if (done) this.finishGesture(id, kind, dx, dy).finally(() => (this.gesture = null));
+        };
+    }
+
+    /**
+     * Saves a move or resize. The pointer's movement is converted to the card's own frame, so the
+     * anchor moves exactly and a card created at any zoom keeps its place at any depth.
+     */
+    private async finishGesture(id: string, kind: CardGesture, dx: number, dy: number): Promise<void> {
+        const card = this.view.model.store.getState().textCards[id];
+        if (!card || (dx === 0 && dy === 0)) return;
+        const frame = itemFrame(card);
+        // Screen px → units of the card's frame → world units
+        const perUnit = this.view.pxPerUnit(frame.exp);
+        const unit = Math.pow(2, -frame.exp);
+        if (kind === "move") {
+            const origin = deepOffset(frame.origin, dx / perUnit, dy / perUnit, frame.exp);
+            await this.updateTextCard(id, {}, { anchor: toAnchor(origin), ...deepToWorld(origin) });
+        } else {
+            const zCard = card.data.zoom;
+            const minUnits = (px: number) => px / (zCard.localScale * Math.pow(2, zCard.zoomExp - frame.exp));
+            const width = Math.max(minUnits(MIN_CARD_PX.width), itemLocalBBox(card).width + dx / perUnit) * unit;
+            const height = Math.max(minUnits(MIN_CARD_PX.height), itemLocalBBox(card).height + dy / perUnit) * unit;
+            await this.updateTextCard(id, {}, { width, height });
+        }
     }
     /** Attach input / blur listeners exactly once per Notecard */
     initHandlers() {
@@ -96,17 +165,31 @@ export class NotecardOverlay {
     /** Feed *one* visible text‑card per call */
     syncPosition(rect: QuadItem<TextCardProperties>) {
         const id = rect.id;
-        const zView = this.view.getZoom();
-        const zCard = Math.pow(2, rect.data.zoom.zoomExp) * rect.data.zoom.localScale;
-        const scale = zView / zCard;
+        const zView = this.view.getZoomObj();
+        const zCard = rect.data.zoom;
+        // Ratio of the two zooms without forming either one, which over- or underflows at depth
+        const scale = Math.pow(2, zView.zoomExp - zCard.zoomExp) * (zView.localScale / zCard.localScale);
 
-        // world‑units → screen‑px
-        const sx = rect.x * zView + this.view["world"].x;
-        const sy = rect.y * zView + this.view["world"].y;
-        const screenW = rect.width * zView;
+        // card frame → screen‑px; the card's own CSS px are those of the zoom it was created at
+        const frame = itemFrame(rect);
+        const local = itemLocalBBox(rect);
+        const cssPerUnit = zCard.localScale * Math.pow(2, zCard.zoomExp - frame.exp);
+        let [sx, sy] = this.view.frameToScreen(frame, [local.x, local.y]);
+        let cssW = local.width * cssPerUnit;
+        let cssH = local.height * cssPerUnit;
+        const g = this.gesture;
+        const gesture = g?.id === id && g.from.anchor === rect.anchor && g.from.width === rect.width && g.from.height === rect.height ? g : null;
+        if (gesture?.kind === "move") {
+            sx += gesture.dx;
+            sy += gesture.dy;
+        } else if (gesture?.kind === "resize") {
+            cssW = Math.max(MIN_CARD_PX.width, cssW + gesture.dx / scale);
+            cssH = Math.max(MIN_CARD_PX.height, cssH + gesture.dy / scale);
+        }
+        const screenW = cssW * scale;
 
-        // Ignore if too small on screen
-        if (screenW < 50) {
+        // Ignore if too small on screen, or too large for a CSS transform to place
+        if (screenW < 50 || screenW > MAX_SCREEN_PX) {
             const el = this.notecards.get(id)?.getElement();
             if (el) el.style.display = "none";
             return;
@@ -115,7 +198,7 @@ export class NotecardOverlay {
         // Create DOM node lazily
         let note = this.notecards.get(id);
         if (!note) {
-            note = new Notecard(0, 0, 508, 304, id, (note) => this.handleDelete(note.id));
+            note = new Notecard(0, 0, cssW, cssH, id, (note) => this.handleDelete(note.id));
             Object.assign(note.getElement().style, {
                 position: "absolute",
                 transformOrigin: "top left",
@@ -125,8 +208,12 @@ export class NotecardOverlay {
             this.host.appendChild(note.getElement());
             this.notecards.set(id, note);
             this.attachHandlers(note);
+            const conflict = this.conflicts.get(id);
+            if (conflict) this.showConflict(note, conflict);
         }
         note.getElement().style.display = "";
+        note.getElement().style.width = `${cssW}px`;
+        note.getElement().style.height = `${cssH}px`;
         note.getElement().dataset.frame = String(this.frame); // mark as kept this frame
         note.getElement().style.transform = `translate(${sx}px,${sy}px) scale(${scale})`;
     }
@@ -137,18 +224,70 @@ export class NotecardOverlay {
             (cards) => {
                 for (const [id, note] of this.notecards) {
                     const newData = cards[id];
-                    note.setContent(newData.data.htmlString);
-                    note.setTitle(newData.data.title);
+                    if (!newData) {
+                        // Deleted (or undone) card: drop the DOM node so a later redo creates a fresh one
+                        note.getElement().remove();
+                        this.notecards.delete(id);
+                        this.conflicts.delete(id);
+                        continue;
+                    }
+                    // A card being typed in keeps what is typed; it is brought up to date on blur
+                    if (!note.isEditing()) this.syncContent(note, newData);
                 }
             }
         );
     }
 
+    /** Shows the stored title and content of a card the user has stopped editing. */
+    private resync(id: string) {
+        const note = this.notecards.get(id);
+        const card = this.view.model.store.getState().textCards[id];
+        if (note && card && !note.isEditing()) this.syncContent(note, card);
+    }
+
+    private syncContent(note: Notecard, card: QuadItem<TextCardProperties>) {
+        if (docToHtml(note.getDoc()) !== card.data.htmlString) note.setDoc(card.data.doc);
+        if (note.getTitle() !== card.data.title) note.setTitle(card.data.title);
+    }
+
+    /** Whether the user is typing in the card's title or content. */
+    isEditing(id: string): boolean {
+        return this.notecards.get(id)?.isEditing() ?? false;
+    }
+
+    /** The card's text as shown, including typing the debounced save has not written yet. */
+    shownText(id: string): CardText | null {
+        const note = this.notecards.get(id);
+        return note ? { title: note.getTitle().trim(), doc: note.getDoc() } : null;
+    }
+
+    /** Flags a card as edited concurrently; its banner lets the user pick which version to keep. */
+    markConflict(id: string, conflict: CardConflict) {
+        this.conflicts.set(id, conflict);
+        const note = this.notecards.get(id);
+        if (note) this.showConflict(note, conflict);
+    }
+
+    private showConflict(note: Notecard, conflict: CardConflict) {
+        const time = new Date(conflict.at).toLocaleTimeString();
+        note.showConflict(`Also edited in ${conflict.from} at ${time}`, [
+            { label: "Keep mine", run: () => this.resolveConflict(note.id, conflict.mine) },
+            { label: "Keep theirs", run: () => this.resolveConflict(note.id, conflict.theirs) },
+        ]);
+    }
+
+    private async resolveConflict(id: string, text: CardText) {
+        this.conflicts.delete(id);
+        this.notecards.get(id)?.clearConflict();
+        await this.updateTextCard(id, text);
+    }
+
     /** Call once *after* the for‑loop to clean up any cards not seen this frame */
     endFrame() {
         const current = String(this.frame);
         for (const [id, el] of this.notecards) {
-            if (el.getElement().dataset.frame !== current) {
+            // A card being dragged keeps its element, and so its pointer capture, even if it leaves the view
+            if (el.getElement().dataset.frame !== current && this.gesture?.id !== id) {
                 try {
                     this.host.removeChild(el.getElement());
                 } catch {
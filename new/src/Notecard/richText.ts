@@ -0,0 +1,231 @@
+// Notecard/richText.ts
+//
+// The document model of card content. A card is a list of blocks (paragraphs, headings, list items
+// and checklist items), each a list of text runs with inline marks and an optional link. It is what
+// cards store and sync; `htmlString` is always docToHtml of it, for rendering and search.
+//
+// docToHtml is deterministic: equal documents give equal strings, written the way a browser
+// serializes innerHTML, so rendered content can be compared to stored content. htmlToDoc reads any
+// HTML, including what contenteditable produces, back into the model.
+
+export type Mark = "bold" | "italic" | "underline" | "strike" | "code";
+
+/** Canonical order of marks, outermost first. Runs list their marks in this order. */
+export const MARKS: readonly Mark[] = ["bold", "italic", "underline", "strike", "code"];
+
+/** Text with the same formatting throughout. "\n" is a line break within the block. */
+export type TextRun = { text: string; marks?: Mark[]; href?: string };
+
+export type Block =
+    | { type: "paragraph"; content: TextRun[] }
+    | { type: "heading"; level: 1 | 2 | 3; content: TextRun[] }
+    | { type: "bullet"; content: TextRun[] }
+    | { type: "ordered"; content: TextRun[] }
+    | { type: "task"; checked: boolean; content: TextRun[] };
+
+export type BlockType = Block["type"];
+
+export type RichDoc = { blocks: Block[] };
+
+export const emptyDoc = (): RichDoc => ({ blocks: [] });
+
+const MARK_TAGS: Record<Mark, string> = { bold: "strong", italic: "em", underline: "u", strike: "s", code: "code" };
+
+// ─── Normalization ────────────────────────────────────────────────────────────
+
+const sameFormat = (a: TextRun, b: TextRun) => a.href === b.href && (a.marks ?? []).join() === (b.marks ?? []).join();
+
+/** Drops empty runs, sorts and dedupes marks, and merges neighbours with the same formatting. */
+export function normalizeRuns(runs: TextRun[]): TextRun[] {
+    const out: TextRun[] = [];
+    for (const run of runs) {
+        if (run.text === "") continue;
+        const marks = MARKS.filter((m) => run.marks?.includes(m));
+        const next: TextRun = { text: run.text, ...(marks.length > 0 && { marks }), ...(run.href !== undefined && { href: run.href }) };
+        const last = out[out.length - 1];
+        if (last && sameFormat(last, next)) last.text += next.text;
+        else out.push(next);
+    }
+    return out;
+}
+
+export function normalizeDoc(doc: RichDoc): RichDoc {
+    return { blocks: doc.blocks.map((b) => ({ ...b, content: normalizeRuns(b.content) })) };
+}
+
+export const blockText = (block: Block) => block.content.map((r) => r.text).join("");
+
+/** The document as plain text, one line per block. */
+export const docToText = (doc: RichDoc) => doc.blocks.map(blockText).join("\n");
+
+/** Plain text as a document, one paragraph per line. */
+export const textToDoc = (text: string): RichDoc => ({
+    blocks: text
+        .replace(/\r\n?/g, "\n")
+        .split("\n")
+        .map((line): Block => ({ type: "paragraph", content: normalizeRuns([{ text: line }]) })),
+});
+
+// ─── HTML ─────────────────────────────────────────────────────────────────────
+
+const escapeText = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\u00a0/g, "&nbsp;");
+const escapeAttr = (s: string) => s.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/\u00a0/g, "&nbsp;");
+
+/** Links that cannot run script when followed. Others are kept as plain text. */
+export function safeHref(href: string): string | null {
+    // Browsers drop tabs, newlines and other control characters from a URL, and the spaces around it,
+    // so "java\tscript:" or "\x01javascript:" is followed as javascript:. The scheme is read without them.
+    const cleaned = href.replace(/[\u0000-\u001f\u007f]/g, "").trim();
+    const scheme = cleaned.replace(/[\u0000-\u0020\u007f]/g, "");
+    if (/^(https?:|mailto:|#|\/(?!\/))/i.test(scheme)) return cleaned;
+    return /^[a-z][a-z0-9+.-]*:/i.test(scheme) ? null : cleaned;
+}
+
+function runsToHtml(runs: TextRun[]): string {
+    // An empty block still needs a line box to put the caret in, as browsers do
+    if (runs.length === 0) return "<br>";
+    let html = "";
+    for (const run of runs) {
+        let inner = run.text.split("\n").map(escapeText).join("<br>");
+        for (const mark of [...(run.marks ?? [])].reverse()) inner = `<${MARK_TAGS[mark]}>${inner}</${MARK_TAGS[mark]}>`;
+        if (run.href !== undefined) inner = `<a href="${escapeAttr(run.href)}">${inner}</a>`;
+        html += inner;
+    }
+    // A trailing line break needs a second one to show as an empty line
+    return runs[runs.length - 1].text.endsWith("\n") ? html + "<br>" : html;
+}
+
+const listTag = (block: Block) => (block.type === "bullet" ? "<ul>" : block.type === "ordered" ? "<ol>" : block.type === "task" ? '<ul class="checklist">' : null);
+
+export function docToHtml(doc: RichDoc): string {
+    let html = "";
+    let openList: string | null = null;
+    for (const block of doc.blocks) {
+        const list = listTag(block);
+        if (openList && openList !== list) html += openList.startsWith("<ol") ? "</ol>" : "</ul>";
+        if (list && openList !== list) html += list;
+        openList = list;
+
+        const content = runsToHtml(block.content);
+        if (block.type === "paragraph") html += `<p>${content}</p>`;
+        else if (block.type === "heading") html += `<h${block.level}>${content}</h${block.level}>`;
+        else if (block.type === "task") html += `<li data-checked="${block.checked}">${content}</li>`;
+        else html += `<li>${content}</li>`;
+    }
+    if (openList) html += openList.startsWith("<ol") ? "</ol>" : "</ul>";
+    return html;
+}
+
+const BLOCK_TAGS = new Set(["P", "DIV", "H1", "H2", "H3", "H4", "H5", "H6", "UL", "OL", "LI", "BLOCKQUOTE", "PRE", "SECTION", "ARTICLE", "HEADER", "FOOTER", "TABLE", "TR"]);
+const SKIPPED_TAGS = new Set(["SCRIPT", "STYLE", "TEMPLATE", "HEAD", "TITLE", "META", "LINK"]);
+
+const TAG_MARKS: { [tag: string]: Mark } = { B: "bold", STRONG: "bold", I: "italic", EM: "italic", U: "underline", S: "strike", STRIKE: "strike", DEL: "strike", CODE: "code", KBD: "code", TT: "code" };
+
+/** Marks set by inline styles, as some browsers' editing commands write them. */
+function styleMarks(el: HTMLElement): Mark[] {
+    const marks: Mark[] = [];
+    const { fontWeight, fontStyle, textDecoration, textDecorationLine } = el.style;
+    if (fontWeight === "bold" || Number(fontWeight) >= 600) marks.push("bold");
+    if (fontStyle === "italic") marks.push("italic");
+    const decoration = `${textDecoration} ${textDecorationLine}`;
+    if (decoration.includes("underline")) marks.push("underline");
+    if (decoration.includes("line-through")) marks.push("strike");
+    return marks;
+}
+
+function collectInline(node: Node, marks: Mark[], href: string | undefined, out: TextRun[]): void {
+    if (node.nodeType === Node.TEXT_NODE) {
+        // Source formatting collapses to one space; the no-break spaces contenteditable types are kept
+        const text = (node as Text).data.replace(/[\t\n\r ]+/g, " ");
+        out.push({ text, marks, ...(href !== undefined && { href }) });
+        return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as HTMLElement;
+    if (SKIPPED_TAGS.has(el.tagName)) return;
+    if (el.tagName === "BR") {
+        out.push({ text: "\n", marks, ...(href !== undefined && { href }) });
+        return;
+    }
+    const inner = [...marks, ...styleMarks(el)];
+    if (TAG_MARKS[el.tagName]) inner.push(TAG_MARKS[el.tagName]);
+    const link = el.tagName === "A" && el.getAttribute("href") !== null ? (safeHref(el.getAttribute("href")!) ?? undefined) : href;
+    for (const child of el.childNodes) collectInline(child, inner, link, out);
+}
+
+/** Block content: whitespace at the edges trimmed, and the placeholder line break of an empty line dropped. */
+function blockContent(runs: TextRun[]): TextRun[] {
+    const content = normalizeRuns(runs);
+    if (content.length === 0) return content;
+    const first = content[0];
+    first.text = first.text.replace(/^ +/, "");
+    const last = content[content.length - 1];
+    last.text = last.text.replace(/ +$/, "").replace(/\n$/, "");
+    return normalizeRuns(content);
+}
+
+/** Reads the blocks in an element's children. Loose inline content between blocks becomes paragraphs. */
+function parseBlocks(root: Node, blocks: Block[], listType: "bullet" | "ordered" | "task" | null): void {
+    let inline: TextRun[] | null = null;
+    const flush = () => {
+        if (!inline) return;
+        const content = blockContent(inline);
+        // Whitespace between block tags is not a paragraph
+        if (content.length > 0 || inline.some((r) => r.text === "\n")) blocks.push({ type: "paragraph", content });
+        inline = null;
+    };
+
+    for (const node of root.childNodes) {
+        const el = node.nodeType === Node.ELEMENT_NODE ? (node as HTMLElement) : null;
+        if (!el || !BLOCK_TAGS.has(el.tagName)) {
+            collectInline(node, [], undefined, (inline ??= []));
+            continue;
+        }
+        flush();
+        const tag = el.tagName;
+        if (/^H[1-6]$/.test(tag)) {
+            const level = Math.min(Number(tag[1]), 3) as 1 | 2 | 3;
+            const runs: TextRun[] = [];
+            collectInline(el, [], undefined, runs);
+            blocks.push({ type: "heading", level, content: blockContent(runs) });
+        } else if (tag === "UL" || tag === "OL") {
+            parseBlocks(el, blocks, tag === "OL" ? "ordered" : el.classList.contains("checklist") ? "task" : "bullet");
+        } else if (tag === "LI") {
+            listItem(el, blocks, listType ?? "bullet");
+        } else if (tag === "P") {
+            const runs: TextRun[] = [];
+            collectInline(el, [], undefined, runs);
+            blocks.push({ type: "paragraph", content: blockContent(runs) });
+        } else {
+            // Containers (div, blockquote, …) may hold blocks or just text
+            parseBlocks(el, blocks, null);
+        }
+    }
+    flush();
+}
+
+/** A list item, then any lists nested in it as items after it (the model has no nesting). */
+function listItem(li: HTMLElement, blocks: Block[], listType: "bullet" | "ordered" | "task"): void {
+    const runs: TextRun[] = [];
+    const nested: HTMLElement[] = [];
+    let checked: boolean | null = li.dataset.checked !== undefined ? li.dataset.checked === "true" : null;
+    for (const child of li.childNodes) {
+        const el = child.nodeType === Node.ELEMENT_NODE ? (child as HTMLElement) : null;
+        if (el && (el.tagName === "UL" || el.tagName === "OL")) nested.push(el);
+        else if (el instanceof HTMLInputElement && el.type === "checkbox") checked = el.checked || el.hasAttribute("checked");
+        else if (el && BLOCK_TAGS.has(el.tagName)) collectInline(el, [], undefined, runs);
+        else collectInline(child, [], undefined, runs);
+    }
+    const content = blockContent(runs);
+    if (checked !== null || listType === "task") blocks.push({ type: "task", checked: checked ?? false, content });
+    else blocks.push({ type: listType, content });
+    for (const list of nested) parseBlocks(list, blocks, list.tagName === "OL" ? "ordered" : list.classList.contains("checklist") ? "task" : "bullet");
+}
+
+/** Reads HTML from any source into a normalized document. */
+export function htmlToDoc(html: string): RichDoc {
+    const body = new DOMParser().parseFromString(html, "text/html").body;
+    const blocks: Block[] = [];
+    parseBlocks(body, blocks, null);
+    return { blocks };
+}
@@ -0,0 +1,258 @@
+// Notecard/richTextEditing.ts
+//
+// Formatting commands on the document model, and the mapping between a contenteditable element and
+// positions in its document. Typing is left to the browser; a command reads the edited DOM into the
+// model, changes the model and renders it back, so the stored markup is always canonical.
+
+import { Block, BlockType, blockText, docToHtml, htmlToDoc, Mark, normalizeRuns, RichDoc, TextRun } from "./richText";
+
+/** A position in a document: a block and a character offset in its text. */
+export type DocPos = { block: number; offset: number };
+export type DocRange = { start: DocPos; end: DocPos };
+
+/** Private-use characters marking the selection while the DOM is read. */
+const START = "\ue000";
+const END = "\ue001";
+
+const comparePos = (a: DocPos, b: DocPos) => a.block - b.block || a.offset - b.offset;
+
+/**
+ * Reads the document in `root` and the selection in it (or `range`, if given), then renders the
+ * document back canonically with the selection restored. The range is null when the selection is
+ * not in `root`.
+ */
+export function captureEditor(root: HTMLElement, range?: Range): { doc: RichDoc; range: DocRange | null } {
+    const selection = document.getSelection();
+    const domRange = range ?? (selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null);
+    const inRoot = !!domRange && root.contains(domRange.startContainer) && root.contains(domRange.endContainer);
+
+    if (inRoot) {
+        const end = domRange.cloneRange();
+        end.collapse(false);
+        end.insertNode(document.createTextNode(END));
+        const start = domRange.cloneRange();
+        start.collapse(true);
+        start.insertNode(document.createTextNode(START));
+    }
+    const marked = htmlToDoc(root.innerHTML);
+    const found = inRoot ? takeMarkers(marked) : null;
+    // Once more through HTML, to trim what the markers kept from being trimmed
+    const doc = htmlToDoc(docToHtml(marked));
+    const docRange = found && clampRange(doc, found);
+
+    root.innerHTML = docToHtml(doc);
+    if (docRange) setEditorSelection(root, docRange);
+    return { doc, range: docRange };
+}
+
+/** Removes the markers from the document, returning where they were. */
+function takeMarkers(doc: RichDoc): DocRange | null {
+    let start: DocPos | null = null;
+    let end: DocPos | null = null;
+    doc.blocks.forEach((block, index) => {
+        let offset = 0;
+        for (const run of block.content) {
+            let text = "";
+            for (const ch of run.text) {
+                if (ch === START) start = { block: index, offset };
+                else if (ch === END) end = { block: index, offset };
+                else {
+                    text += ch;
+                    offset += ch.length;
+                }
+            }
+            run.text = text;
+        }
+        block.content = normalizeRuns(block.content);
+    });
+    if (!start || !end) return null;
+    return comparePos(start, end) <= 0 ? { start, end } : { start: end, end: start };
+}
+
+function clampRange(doc: RichDoc, range: DocRange): DocRange | null {
+    if (doc.blocks.length === 0) return null;
+    const clamp = (p: DocPos): DocPos => {
+        const block = Math.min(p.block, doc.blocks.length - 1);
+        return { block, offset: Math.min(p.offset, blockText(doc.blocks[block]).length) };
+    };
+    return { start: clamp(range.start), end: clamp(range.end) };
+}
+
+/** The elements of the blocks of canonically rendered content, in document order. */
+function blockElements(root: HTMLElement): HTMLElement[] {
+    const out: HTMLElement[] = [];
+    for (const el of root.children) {
+        if (el.tagName === "UL" || el.tagName === "OL") out.push(...(Array.from(el.children) as HTMLElement[]));
+        else out.push(el as HTMLElement);
+    }
+    return out;
+}
+
+/** The DOM position of a document position in canonically rendered content. */
+function domPosition(root: HTMLElement, pos: DocPos): [Node, number] {
+    const el = blockElements(root)[pos.block];
+    if (!el) return [root, root.childNodes.length];
+    let left = pos.offset;
+    const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        if (node.nodeType === Node.TEXT_NODE) {
+            const length = (node as Text).length;
+            if (left <= length) return [node, left];
+            left -= length;
+        } else if ((node as Element).tagName === "BR") {
+            const index = Array.prototype.indexOf.call(node.parentNode!.childNodes, node);
+            if (left === 0) return [node.parentNode!, index];
+            left -= 1;
+        }
+    }
+    return [el, el.childNodes.length];
+}
+
+export function setEditorSelection(root: HTMLElement, range: DocRange): void {
+    const selection = document.getSelection();
+    if (!selection) return;
+    const dom = document.createRange();
+    dom.setStart(...domPosition(root, range.start));
+    dom.setEnd(...domPosition(root, range.end));
+    selection.removeAllRanges();
+    selection.addRange(dom);
+}
+
+// ─── Commands ─────────────────────────────────────────────────────────────────
+
+const isCollapsed = (r: DocRange) => comparePos(r.start, r.end) === 0;
+
+/** The word around a caret, or the range itself if it is a selection or not in a word. */
+function expandToWord(doc: RichDoc, range: DocRange): DocRange {
+    if (!isCollapsed(range)) return range;
+    const text = blockText(doc.blocks[range.start.block]);
+    const isWord = (ch: string | undefined) => !!ch && /[\p{L}\p{N}_]/u.test(ch);
+    let from = range.start.offset;
+    let to = from;
+    while (isWord(text[from - 1])) from--;
+    while (isWord(text[to])) to++;
+    return { start: { block: range.start.block, offset: from }, end: { block: range.start.block, offset: to } };
+}
+
+/** The covered part [from, to) of each block in a range. */
+function spans(doc: RichDoc, range: DocRange): { block: number; from: number; to: number }[] {
+    const out: { block: number; from: number; to: number }[] = [];
+    for (let b = range.start.block; b <= range.end.block; b++) {
+        const from = b === range.start.block ? range.start.offset : 0;
+        const to = b === range.end.block ? range.end.offset : blockText(doc.blocks[b]).length;
+        if (to > from) out.push({ block: b, from, to });
+    }
+    return out;
+}
+
+/** A block's runs with `fn` applied to the part [from, to), runs split at its edges. */
+function mapRuns(content: TextRun[], from: number, to: number, fn: (run: TextRun) => TextRun): TextRun[] {
+    const out: TextRun[] = [];
+    let at = 0;
+    for (const run of content) {
+        const a = Math.max(from - at, 0);
+        const b = Math.min(to - at, run.text.length);
+        if (b <= 0 || a >= run.text.length) out.push(run);
+        else {
+            out.push({ ...run, text: run.text.slice(0, a) });
+            out.push(fn({ ...run, text: run.text.slice(a, b) }));
+            out.push({ ...run, text: run.text.slice(b) });
+        }
+        at += run.text.length;
+    }
+    return normalizeRuns(out);
+}
+
+/** The runs covering [from, to) of a block, cut to it. */
+function coveredRuns(content: TextRun[], from: number, to: number): TextRun[] {
+    const covered: TextRun[] = [];
+    mapRuns(content, from, to, (run) => (covered.push(run), run));
+    return covered;
+}
+
+function mapSpans(doc: RichDoc, range: DocRange, fn: (run: TextRun) => TextRun): RichDoc {
+    const blocks = doc.blocks.slice();
+    for (const { block, from, to } of spans(doc, range)) {
+        blocks[block] = { ...blocks[block], content: mapRuns(blocks[block].content, from, to, fn) };
+    }
+    return { blocks };
+}
+
+/**
+ * Replaces the range with `fragment` (e.g. pasted content). The fragment's first block joins the
+ * block the range starts in and its last the block it ends in. Returns the caret after the insertion.
+ */
+export function insertDoc(doc: RichDoc, range: DocRange, fragment: RichDoc): { doc: RichDoc; caret: DocPos } {
+    const first = doc.blocks[range.start.block];
+    const last = doc.blocks[range.end.block];
+    const before = coveredRuns(first.content, 0, range.start.offset);
+    const after = coveredRuns(last.content, range.end.offset, blockText(last).length);
+    const inserted = fragment.blocks.length > 0 ? fragment.blocks : [{ type: "paragraph", content: [] } as Block];
+
+    // An empty paragraph takes the type of what is pasted into it, as with a list pasted on a new line
+    const head: Block = blockText(first) === "" && first.type === "paragraph" ? inserted[0] : first;
+    const blocks: Block[] = inserted.map((block, i) => (i === 0 ? { ...head, content: [...before, ...block.content] } : block));
+    const end = blocks.length - 1;
+    const caret = { block: range.start.block + end, offset: blockText(blocks[end]).length };
+    blocks[end] = { ...blocks[end], content: normalizeRuns([...blocks[end].content, ...after]) };
+    blocks[0] = { ...blocks[0], content: normalizeRuns(blocks[0].content) };
+    return { doc: { blocks: [...doc.blocks.slice(0, range.start.block), ...blocks, ...doc.blocks.slice(range.end.block + 1)] }, caret };
+}
+
+/** Adds a mark to the selection, or removes it if all of the selection has it. A caret acts on its word. */
+export function toggleMark(doc: RichDoc, range: DocRange, mark: Mark): RichDoc {
+    range = expandToWord(doc, range);
+    const covered = spans(doc, range).flatMap(({ block, from, to }) => coveredRuns(doc.blocks[block].content, from, to));
+    if (covered.length === 0) return doc;
+    const remove = covered.every((run) => run.marks?.includes(mark));
+    return mapSpans(doc, range, (run) => ({
+        ...run,
+        marks: remove ? (run.marks ?? []).filter((m) => m !== mark) : [...(run.marks ?? []), mark],
+    }));
+}
+
+/** Links the selection (or the word at the caret) to `href`, or unlinks it if `href` is null. */
+export function setLink(doc: RichDoc, range: DocRange, href: string | null): RichDoc {
+    range = expandToWord(doc, range);
+    return mapSpans(doc, range, ({ href: _, ...run }) => (href === null ? run : { ...run, href }));
+}
+
+/** The link at the start of a range, if any, e.g. to prefill a link prompt. */
+export function linkAt(doc: RichDoc, range: DocRange): string | null {
+    const { block, offset } = range.start;
+    let at = 0;
+    for (const run of doc.blocks[block]?.content ?? []) {
+        if (offset >= at && offset <= at + run.text.length && run.href !== undefined) return run.href;
+        at += run.text.length;
+    }
+    return null;
+}
+
+/** Turns every block the range touches into `type`; headings take `level`. */
+export function setBlockType(doc: RichDoc, range: DocRange, type: BlockType, level: 1 | 2 | 3 = 1): RichDoc {
+    const blocks = doc.blocks.map((block, i): Block => {
+        if (i < range.start.block || i > range.end.block) return block;
+        const { content } = block;
+        switch (type) {
+            case "heading":
+                return { type, level, content };
+            case "task":
+                return { type, checked: block.type === "task" && block.checked, content };
+            default:
+                return { type, content };
+        }
+    });
+    return { blocks };
+}
+
+export function toggleTask(doc: RichDoc, index: number): RichDoc {
+    const blocks = doc.blocks.map((block, i) => (i === index && block.type === "task" ? { ...block, checked: !block.checked } : block));
+    return { blocks };
+}
+
+/** The type of the block at the start of a range, as the block menu names it. */
+export function blockTypeAt(doc: RichDoc, range: DocRange): string {
+    const block = doc.blocks[range.start.block];
+    if (!block) return "paragraph";
+    return block.type === "heading" ? `heading${block.level}` : block.type;
+}
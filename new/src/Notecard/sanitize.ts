@@ -0,0 +1,126 @@
+// Notecard/sanitize.ts
+//
+// Allowlist sanitizing of card content from outside the app: imported files, pasted HTML, changes
+// from other clients and rows already in the DB. Only the markup the document model renders (and
+// the plain formatting tags htmlToDoc reads) is kept; everything else is removed and listed, so an
+// import can report what a file tried to smuggle in.
+
+import type { TextCardData } from "../canvas/types";
+import { docToHtml, RichDoc, safeHref } from "./richText";
+
+/** Tags kept, with the attributes each may keep. */
+const ALLOWED: { [tag: string]: string[] } = {
+    P: [],
+    DIV: [],
+    SPAN: [],
+    BR: [],
+    H1: [],
+    H2: [],
+    H3: [],
+    H4: [],
+    H5: [],
+    H6: [],
+    UL: ["class"],
+    OL: [],
+    LI: ["data-checked"],
+    // The checkboxes of task lists copied from other apps, read as checklist items
+    INPUT: ["type", "checked", "disabled"],
+    BLOCKQUOTE: [],
+    PRE: [],
+    A: ["href"],
+    STRONG: [],
+    B: [],
+    EM: [],
+    I: [],
+    U: [],
+    S: [],
+    STRIKE: [],
+    DEL: [],
+    CODE: [],
+    KBD: [],
+};
+
+/** Elements removed with their content, which is never text the user should see. */
+const DROPPED = new Set(["SCRIPT", "STYLE", "TEMPLATE", "NOSCRIPT", "IFRAME", "FRAME", "FRAMESET", "OBJECT", "EMBED", "SVG", "MATH", "HEAD", "TITLE", "META", "LINK", "BASE", "FORM", "BUTTON", "SELECT", "TEXTAREA", "AUDIO", "VIDEO", "IMG", "CANVAS"]);
+
+/** Values an allowed attribute may have. */
+const ATTRIBUTE_VALUES: { [attribute: string]: (value: string) => boolean } = {
+    class: (value) => value === "checklist",
+    "data-checked": (value) => value === "true" || value === "false",
+    href: (value) => safeHref(value) !== null,
+    type: (value) => value === "checkbox",
+    checked: () => true,
+    disabled: () => true,
+};
+
+/** What sanitizing removed, e.g. `<script> element` or `onerror attribute on <img>`. */
+export type Sanitized<T> = { value: T; removed: string[] };
+
+/** HTML with only allowed tags, attributes and links. Disallowed elements that hold text are unwrapped. */
+export function sanitizeHtml(html: string): Sanitized<string> {
+    const removed = new Set<string>();
+    // A parsed document is inert: nothing in it loads or runs
+    const { head, body } = new DOMParser().parseFromString(html, "text/html");
+    // Leading <script>, <style>, <meta> and the like are parsed into the head, which is dropped with
+    // the attributes of a <body> tag
+    for (const el of Array.from(head.children)) removed.add(`<${el.tagName.toLowerCase()}> element`);
+    for (const { name } of Array.from(body.attributes)) removed.add(`${name} attribute on <body>`);
+    cleanChildren(body, removed);
+    return { value: body.innerHTML, removed: [...removed] };
+}
+
+function cleanChildren(parent: Element, removed: Set<string>): void {
+    for (const node of Array.from(parent.childNodes)) {
+        if (node.nodeType === Node.TEXT_NODE) continue;
+        if (node.nodeType !== Node.ELEMENT_NODE) {
+            node.remove(); // comments, processing instructions
+            continue;
+        }
+        const el = node as Element;
+        const tag = el.tagName.toUpperCase();
+        const name = tag.toLowerCase();
+        if (DROPPED.has(tag) || (tag === "INPUT" && el.getAttribute("type") !== "checkbox")) {
+            removed.add(`<${name}> element`);
+            el.remove();
+            continue;
+        }
+        cleanChildren(el, removed);
+        const allowed = ALLOWED[tag];
+        if (!allowed) {
+            removed.add(`<${name}> element`);
+            el.replaceWith(...Array.from(el.childNodes));
+            continue;
+        }
+        for (const { name: attribute, value } of Array.from(el.attributes)) {
+            if (allowed.includes(attribute) && ATTRIBUTE_VALUES[attribute](value)) continue;
+            removed.add(allowed.includes(attribute) ? `${attribute}="${value.slice(0, 40)}" on <${name}>` : `${attribute} attribute on <${name}>`);
+            el.removeAttribute(attribute);
+        }
+    }
+}
+
+/** The document with links that could run script (javascript:, data: and the like) unlinked. */
+export function sanitizeDoc(doc: RichDoc): Sanitized<RichDoc> {
+    const removed = new Set<string>();
+    const blocks = doc.blocks.map((block) => ({
+        ...block,
+        content: block.content.map(({ href, ...run }) => {
+            if (href === undefined) return run;
+            const safe = safeHref(href);
+            if (safe === null) removed.add(`link to ${href.slice(0, 40)}`);
+            return safe === null ? run : { ...run, href: safe };
+        }),
+    }));
+    return { value: { blocks }, removed: [...removed] };
+}
+
+/**
+ * Makes a card's stored content safe to render, in place: its document's links are checked and
+ * `htmlString` is rendered from the document again. Returns what was removed.
+ */
+export function sanitizeCardContent(data: Pick<TextCardData, "doc" | "htmlString">): string[] {
+    const { value, removed } = sanitizeDoc(data.doc);
+    data.doc = value;
+    data.htmlString = docToHtml(value);
+    return removed;
+}
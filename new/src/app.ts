@@ -2,15 +2,53 @@
 import { DrawingModel } from "./DrawingData/DrawingModel";
 import { CanvasView } from "./canvas/CanvasView";
 import { initControlListeners } from "./controls";
-import { initPalletButtons } from "./pallet/initPallet";
+import { runStrokeBenchmark } from "./benchmark";
+import { initEraserModeButton, initPalletButtons, initWormholeHint } from "./pallet/initPallet";
+import { BoardRegistry } from "./DrawingData/BoardRegistry";
+import { initBoardSwitcher } from "./boards/initBoardSwitcher";
+import { SyncClient } from "./sync/SyncClient";
+import { TabSync } from "./sync/TabSync";
+import { initSearch } from "./search/initSearch";
+import { initMinimap } from "./minimap/initMinimap";
+import { initBookmarks } from "./bookmarks/initBookmarks";
+import { initDeepLink, parseLinkHash } from "./deepLink/initDeepLink";
 
-function initApp() {
-    const model = new DrawingModel();
+/** Whether the rendering benchmark is built in: false in `npm run build`, true in `npm run build-bench`. */
+declare const BENCHMARK: boolean;
+
+async function initApp() {
+    const boards = new BoardRegistry();
+    // A link to a board (see initDeepLink) opens it instead of the one used last
+    const linked = parseLinkHash(location.hash).board;
+    const board = (linked && (await boards.boards.get(linked))) || (await boards.getActive());
+    boards.setActive(board.id);
+    const model = new DrawingModel(board);
 
     const mainCanvasView = new CanvasView(document.body, model, { mainCanvas: true });
 
     initControlListeners(model, mainCanvasView);
+    initBoardSwitcher(boards, model, mainCanvasView);
+    initSearch(model, mainCanvasView);
+    initMinimap(model, mainCanvasView);
+    initBookmarks(model, mainCanvasView);
+    initDeepLink(model, mainCanvasView);
+    // Other tabs of this browser with the same board open
+    if (typeof BroadcastChannel !== "undefined") new TabSync(model, mainCanvasView);
     initPalletButtons();
+    initEraserModeButton();
+    initWormholeHint();
+
+    const params = new URLSearchParams(location.search);
+    const benchmark = params.get("benchmark");
+    if (BENCHMARK && benchmark !== null) runStrokeBenchmark(mainCanvasView, model, Number(benchmark) || 100_000);
+
+    // Collaboration through a relay (npm run relay), e.g. ?sync=ws://localhost:8787&name=Sam
+    const sync = params.get("sync");
+    if (sync) {
+        const name = params.get("name") ?? localStorage.getItem("syncName") ?? `guest-${Math.floor(Math.random() * 10000)}`;
+        localStorage.setItem("syncName", name);
+        new SyncClient(sync, model, mainCanvasView, name);
+    }
 
     // Test second canvas
     // const canvas2Container: HTMLElement | null = document.querySelector(".nested-canvas");
@@ -2,18 +2,28 @@
 import { createStore } from "zustand/vanilla";
 
 import { subscribeWithSelector } from "zustand/middleware";
+import type { CameraTarget } from "./canvas/types";
 
-export const activeToolKey = ["draw", "notecard", "zoom"] as const;
+export const activeToolKey = ["draw", "notecard", "pan", "erase", "select", "wormhole", "connector"] as const;
 export type ActiveTool = (typeof activeToolKey)[number];
+/** "stroke" deletes every stroke the eraser touches, "partial" cuts away only the touched part. */
+export type EraserMode = "stroke" | "partial";
 type State = {
     activeTool: ActiveTool;
     setActiveTool: (tool: ActiveTool) => void;
+    eraserMode: EraserMode;
+    setEraserMode: (mode: EraserMode) => void;
+    /** Destination captured by the wormhole tool, waiting for the portal to be placed. */
+    wormholeTarget: CameraTarget | null;
 };
 
 export const appStore = createStore<State>()(
     subscribeWithSelector((set) => ({
         activeTool: "draw",
         setActiveTool: (tool: ActiveTool) => set({ activeTool: tool }),
+        eraserMode: "stroke",
+        setEraserMode: (mode: EraserMode) => set({ eraserMode: mode }),
+        wormholeTarget: null,
     }))
 );
 
@@ -22,4 +32,10 @@ export const singleSubscribe = {
     activeTool: <R>(cb: (tool: ActiveTool) => R) => {
         appStore.subscribe((state) => state.activeTool, cb);
     },
+    eraserMode: <R>(cb: (mode: EraserMode) => R) => {
+        appStore.subscribe((state) => state.eraserMode, cb);
+    },
+    wormholeTarget: <R>(cb: (target: State["wormholeTarget"]) => R) => {
+        appStore.subscribe((state) => state.wormholeTarget, cb);
+    },
 };
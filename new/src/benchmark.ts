@@ -0,0 +1,92 @@
+// benchmark.ts
+//
+// Rendering benchmark: build with `npm run build-bench` (the app build leaves it out) and open the app
+// with ?benchmark=100000 to fill the view with that many generated strokes (kept in memory only) and
+// fly the camera through them. Frame times are logged per phase and checked against a budget.
+
+import type { CanvasView } from "./canvas/CanvasView";
+import type { DrawingModel } from "./DrawingData/DrawingModel";
+import { Anchor, deepRescale, fromFrame, toAnchor } from "./canvas/deepCoords";
+import { Point, StrokeData } from "./canvas/types";
+import { scaleZoom } from "./canvas/zoom";
+
+/** Strokes are spread over this many octaves of size around the starting zoom, half smaller and half larger. */
+const SIZE_OCTAVES = 16;
+/** Interactive means 95% of frames within this (ms) in every phase, i.e. at least 30 fps. */
+export const P95_BUDGET_MS = 1000 / 30;
+
+export type BenchmarkPhase = { frames: number; avgMs: number; p95Ms: number; worstMs: number; withinBudget: boolean };
+
+export function generateBenchmarkStrokes(view: CanvasView, count: number): { data: StrokeData; anchor: Anchor }[] {
+    const frame = view.getCameraFrame();
+    const { width, height } = view.app.renderer;
+    const strokes: { data: StrokeData; anchor: Anchor }[] = [];
+
+    for (let n = 0; n < count; n++) {
+        // Each stroke is ~50 units of its own zoom level, placed somewhere around the starting view
+        const level = Math.floor(Math.random() * SIZE_OCTAVES) - SIZE_OCTAVES / 2;
+        const exp = frame.exp + level;
+        const center: Point = [(Math.random() - 0.5) * width * 2, (Math.random() - 0.5) * height * 2];
+        const anchor = deepRescale(fromFrame(frame, center), exp);
+
+        const pts: Point[] = [[0, 0]];
+        let angle = Math.random() * Math.PI * 2;
+        const len = 8 + Math.floor(Math.random() * 24);
+        for (let i = 1; i < len; i++) {
+            angle += (Math.random() - 0.5) * 1.2;
+            const [x, y] = pts[i - 1];
+            pts.push([x + Math.cos(angle) * 3, y + Math.sin(angle) * 3]);
+        }
+        strokes.push({
+            anchor: toAnchor(anchor),
+            data: { type: "stroke-rect", pts, stroke: { width: 2, color: Math.floor(Math.random() * 0xffffff) } },
+        });
+    }
+    return strokes;
+}
+
+/**
+ * Adds `count` transient strokes, then zooms out, in and pans across them, logging frame times per phase.
+ * @returns The frame times per phase, and whether every phase kept its p95 within P95_BUDGET_MS.
+ */
+export async function runStrokeBenchmark(view: CanvasView, model: DrawingModel, count: number): Promise<{ phases: Record<string, BenchmarkPhase>; passed: boolean }> {
+    await view.ready;
+    const t0 = performance.now();
+    model.addTransientStrokes(generateBenchmarkStrokes(view, count));
+    console.log(`Benchmark: generated ${count} strokes in ${Math.round(performance.now() - t0)} ms`);
+
+    const start = view.getCameraTarget();
+    const phases: [string, () => Promise<unknown>][] = [
+        ["idle", () => new Promise((resolve) => setTimeout(resolve, 2000))],
+        ["zoom out", () => view.flyTo({ ...start, zoom: scaleZoom(start.zoom, Math.pow(2, -SIZE_OCTAVES / 2)) }, { duration: 3000 })],
+        ["zoom in", () => view.flyTo({ ...start, zoom: scaleZoom(start.zoom, Math.pow(2, SIZE_OCTAVES / 2)) }, { duration: 6000 })],
+        ["back", () => view.flyTo(start, { duration: 3000 })],
+    ];
+
+    const results: Record<string, BenchmarkPhase> = {};
+    for (const [name, run] of phases) {
+        const samples: number[] = [];
+        const sample = () => samples.push(view.app.ticker.deltaMS);
+        view.app.ticker.add(sample);
+        await run();
+        view.app.ticker.remove(sample);
+
+        samples.sort((a, b) => a - b);
+        const avg = samples.reduce((a, b) => a + b, 0) / Math.max(samples.length, 1);
+        const p95 = samples[Math.floor(samples.length * 0.95)] ?? 0;
+        results[name] = {
+            frames: samples.length,
+            avgMs: Math.round(avg * 10) / 10,
+            p95Ms: Math.round(p95 * 10) / 10,
+            worstMs: Math.round((samples[samples.length - 1] ?? 0) * 10) / 10,
+            withinBudget: p95 <= P95_BUDGET_MS,
+        };
+    }
+    console.table(results);
+
+    const passed = Object.values(results).every((r) => r.withinBudget);
+    const verdict = `Benchmark: ${count} strokes, p95 frame time ${passed ? "within" : "OVER"} the ${Math.round(P95_BUDGET_MS * 10) / 10} ms budget`;
+    if (passed) console.log(verdict);
+    else console.error(verdict);
+    return { phases: results, passed };
+}
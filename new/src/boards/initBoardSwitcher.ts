@@ -0,0 +1,95 @@
+import { appStore } from "../appState";
+import { CanvasView } from "../canvas/CanvasView";
+import { BoardInfo, BoardRegistry } from "../DrawingData/BoardRegistry";
+import { DrawingModel } from "../DrawingData/DrawingModel";
+
+/** How often (ms) the camera of the open board is saved, when it moved. */
+const CAMERA_SAVE_MS = 2000;
+
+// The board dropdown and its new / rename / duplicate / delete buttons.
+export function initBoardSwitcher(registry: BoardRegistry, model: DrawingModel, mainCanvasView: CanvasView) {
+    const select = document.querySelector(".board-select") as HTMLSelectElement | null;
+    if (!select) return;
+
+    const renderOptions = async () => {
+        const boards = await registry.list();
+        select.replaceChildren(
+            ...boards.map((b) => {
+                const option = new Option(b.name, b.id);
+                option.selected = b.id === model.board.id;
+                return option;
+            })
+        );
+    };
+
+    // Remember where the camera is, so switching back (or reloading) returns there
+    let savedCamera = "";
+    const saveCamera = async () => {
+        const camera = mainCanvasView.getCameraTarget();
+        const key = JSON.stringify(camera);
+        if (key === savedCamera) return;
+        savedCamera = key;
+        await registry.saveCamera(model.board.id, camera);
+    };
+    mainCanvasView.ready.then(() => setInterval(saveCamera, CAMERA_SAVE_MS));
+    window.addEventListener("pagehide", () => saveCamera());
+
+    const switchTo = async (board: BoardInfo) => {
+        await saveCamera();
+        // A captured wormhole destination belongs to the board it was captured on
+        appStore.setState({ wormholeTarget: null });
+        registry.setActive(board.id);
+        await model.openBoard(board);
+        savedCamera = "";
+        await renderOptions();
+    };
+
+    select.addEventListener("change", async () => {
+        const board = await registry.boards.get(select.value);
+        if (board) await switchTo(board);
+    });
+
+    const onClick = (selector: string, action: () => Promise<void>) => {
+        document.querySelector(selector)?.addEventListener("pointerdown", (e) => {
+            e.preventDefault();
+            action();
+        });
+    };
+
+    onClick(".board-new-btn", async () => {
+        const name = prompt("Name of the new board:", "Untitled board");
+        if (!name) return;
+        await switchTo(await registry.create(name));
+    });
+
+    onClick(".board-rename-btn", async () => {
+        const name = prompt("Rename board:", model.board.name);
+        if (!name) return;
+        await registry.rename(model.board.id, name);
+        model.store.getState().setBoard({ ...model.board, name });
+        await renderOptions();
+    });
+
+    onClick(".board-duplicate-btn", async () => {
+        await saveCamera();
+        const name = prompt("Name of the copy:", `${model.board.name} (copy)`);
+        if (!name) return;
+        await switchTo(await registry.duplicate(model.board.id, name));
+    });
+
+    onClick(".board-delete-btn", async () => {
+        const boards = await registry.list();
+        const next = boards.find((b) => b.id !== model.board.id);
+        if (!next) {
+            alert("The last board cannot be deleted.");
+            return;
+        }
+        if (!confirm(`Delete "${model.board.name}" and everything on it?`)) return;
+        const deleted = model.board.id;
+        await switchTo(next);
+        await registry.remove(deleted);
+        await renderOptions();
+    });
+
+    renderOptions();
+}
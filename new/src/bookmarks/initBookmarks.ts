@@ -0,0 +1,74 @@
+import { CanvasView } from "../canvas/CanvasView";
+import { isTextInput } from "../controls";
+import { Bookmark } from "../DrawingData/DrawingDB";
+import { DrawingModel } from "../DrawingData/DrawingModel";
+
+/** Bookmarks reachable with the number keys 1-9. */
+const SHORTCUTS = 9;
+
+// The bookmarks panel: saves the main camera under a name, and lists the board's bookmarks with
+// buttons to fly to, rename, reorder and delete each. Keys 1-9 fly to the first nine.
+export function initBookmarks(model: DrawingModel, mainCanvasView: CanvasView) {
+    const addButton = document.querySelector(".bookmark-add-btn") as HTMLButtonElement | null;
+    const list = document.querySelector(".bookmark-list") as HTMLOListElement | null;
+    if (!addButton || !list) return;
+
+    const goTo = (bookmark: Bookmark) => mainCanvasView.flyTo(bookmark.camera);
+
+    // pointerdown, so the canvas underneath does not start a stroke
+    const button = (label: string, title: string, action: () => void) => {
+        const el = document.createElement("button");
+        el.textContent = label;
+        el.title = title;
+        el.addEventListener("pointerdown", (e) => {
+            e.preventDefault();
+            action();
+        });
+        return el;
+    };
+
+    const render = (bookmarks: Bookmark[]) => {
+        list.replaceChildren(
+            ...bookmarks.map((bookmark, i) => {
+                const li = document.createElement("li");
+                const name = button(bookmark.name || "untitled", i < SHORTCUTS ? `Go to (${i + 1})` : "Go to", () => goTo(bookmark));
+                name.classList.add("bookmark-name");
+                li.append(
+                    name,
+                    button("✎", "Rename", () => {
+                        const newName = prompt("Rename bookmark:", bookmark.name);
+                        if (newName !== null) model.renameBookmark(bookmark.id, newName.trim());
+                    }),
+                    button("↑", "Move up", () => model.moveBookmark(bookmark.id, i - 1)),
+                    button("↓", "Move down", () => model.moveBookmark(bookmark.id, i + 1)),
+                    button("×", "Delete", () => {
+                        if (confirm(`Delete bookmark "${bookmark.name}"?`)) model.deleteBookmark(bookmark.id);
+                    })
+                );
+                return li;
+            })
+        );
+    };
+
+    addButton.addEventListener("pointerdown", (e) => {
+        e.preventDefault();
+        const bookmarks = model.store.getState().bookmarks;
+        const name = prompt("Name of the bookmark:", `Bookmark ${bookmarks.length + 1}`);
+        if (name === null) return;
+        model.addBookmark(name.trim(), mainCanvasView.getCameraTarget());
+    });
+
+    document.addEventListener("keydown", (e) => {
+        if (e.ctrlKey || e.metaKey || e.altKey || isTextInput(e.target)) return;
+        const n = Number(e.key);
+        if (!Number.isInteger(n) || n < 1 || n > SHORTCUTS) return;
+        const bookmark = model.store.getState().bookmarks[n - 1];
+        if (!bookmark) return;
+        e.preventDefault();
+        goTo(bookmark);
+    });
+
+    // Also when another board is opened: each has its own bookmarks
+    model.store.subscribe((s) => s.bookmarks, render);
+    render(model.store.getState().bookmarks);
+}
@@ -2,18 +2,33 @@
 import { Application, Container, Graphics, Rectangle, ApplicationOptions } from "pixi.js";
 import { DrawingModel } from "../DrawingData/DrawingModel";
 import { createFractalLandmarks, updateFractalLandmarks, FractalLandmarksContext, centerFractal } from "./fractalLandmarks";
-import { StrokeData, BBox, StrokeProperties, CanvasViewOptions, QuadItem, getQuadItem, isStroke, Zoom, CanvasTool, isTextCard, colorPallet } from "./types";
+import { StrokeData, BBox, StrokeProperties, CanvasViewOptions, QuadItem, getQuadItem, isStroke, Zoom, CanvasTool, isTextCard, colorPallet, Point, isWormholeCard, CameraTarget } from "./types";
 import { ActiveTool, appStore } from "../appState";
 import { TextCardTool } from "./canvasTools/TextCardTool";
 import { blockDrawingEvent, DrawTool } from "./canvasTools/DrawTool";
 import { getCanvasTool } from "./canvasTools/getCanvasTool";
+import { PanTool } from "./canvasTools/PanTool";
 import { NotecardOverlay } from "../Notecard/notecardOverlay";
+import { scaleZoom } from "./zoom";
+import { drawSelectionOverlay, LassoState, SelectionState } from "./selection";
+import { hitWormhole } from "./wormhole";
+import { StrokeRenderer } from "./strokeRenderer";
+import { CameraState, easeInOutCubic, flightDuration, FlyToOptions, interpolateCamera } from "./cameraFlight";
+import { convertPoint, DeepPoint, deepFromWorld, deepOffset, deepRescale, deepToWorld, Frame, fromAnchor, itemFrame, itemsCenter, SUBPIXEL_BITS, toAnchor } from "./deepCoords";
+import { ItemTransform, transformPoint } from "./geometry";
+import { drawPressureStroke, strokeRadii } from "./strokeOutline";
+import { DEFAULT_STROKE_PIPELINE, smoothStroke, StrokePipelineOptions } from "./strokePipeline";
+import type { BoardInfo } from "../DrawingData/BoardRegistry";
 
 type DrawState = {
     frozen: boolean;
     active: boolean;
     pointerID: number;
+    /** Points of the stroke being drawn, relative to `anchor` in its units. */
     pts: [number, number][];
+    /** Pen pressure per point, or null when the pointer has none. */
+    pressure: number[] | null;
+    anchor: DeepPoint | null;
     g: Graphics | null;
     width: number;
     color: number;
@@ -44,6 +59,18 @@ const getPixiOptions = (targetElement: HTMLElement, options: Partial<CanvasViewO
     return pixiOptions;
 };
 
+const isTextTarget = (target: EventTarget | null) => {
+    const el = target as HTMLElement | null;
+    return !!el && (el.isContentEditable || el.tagName === "INPUT" || el.tagName === "TEXTAREA");
+};
+
+/** Screen distance (px) the camera origin may drift before it is re-based to the screen center. */
+const REBASE_PX = 1e5;
+/** Items scaled further than 2^this on screen are skipped; Pixi's float32 vertices cannot hold them. */
+const MAX_SCALE_EXP = 100;
+/** Where the camera starts on a board that has never been opened. */
+const HOME_CAMERA: CameraState = { center: { x: 0n, y: 0n, exp: 0 }, zoom: { zoomExp: -30, localScale: 1 } };
+
 export class CanvasView {
     // --- Public Properties ---
     public readonly app: Application;
@@ -52,15 +79,37 @@ export class CanvasView {
     options: Partial<CanvasViewOptions>;
     readonly world: Container;
     readonly strokeCache: Map<string, Graphics>;
-    readonly fractalCtx: FractalLandmarksContext;
+    /** Background landmarks, seeded per board. */
+    fractalCtx: FractalLandmarksContext;
+    private readonly renderer: StrokeRenderer;
+    /** Resolves once Pixi is initialized and the view is rendering. */
+    readonly ready: Promise<void>;
 
     // --- Private Camera State ---
+    // The world container holds coordinates of the camera frame: units of 2^-zoomExp relative to
+    // `origin`, with world.x/y the origin's screen position and world.scale the localScale. Nothing in
+    // it ever sees raw world coordinates, so it stays precise at any zoomExp.
     private zoomExp: number = -30;
     private localScale: number = 1;
+    private origin: DeepPoint = { x: 0n, y: 0n, exp: -30 + SUBPIXEL_BITS };
 
     overlay: NotecardOverlay | null = null;
     // --- Interaction State ---
     drawState: DrawState;
+    /** Current selection of the select tool, drawn as a screen-space overlay. */
+    selection: SelectionState | null = null;
+    /** Lasso path while a selection is being drawn. */
+    lasso: LassoState | null = null;
+    private selectionGfx: Graphics;
+    /** Stops the running flyTo animation, if any. */
+    private cancelFlight: (() => void) | null = null;
+    /** Listeners to flights starting, see onFlight. */
+    private flightListeners = new Set<(arrived: Promise<boolean>) => void>();
+    /** Temporary navigation on top of the active tool: space bar, middle button or a second finger. */
+    private panGesture: PanTool;
+    private spaceHeld = false;
+    /** Screen positions of touch pointers currently down, so a second finger can turn the first into a pinch. */
+    private touches = new Map<number, Point>();
 
     constructor(targetElement: HTMLElement, model: DrawingModel, options: Partial<CanvasViewOptions> = {}) {
         this.app = new Application();
@@ -68,14 +117,19 @@ export class CanvasView {
         this.options = options;
         this.world = new Container();
         this.strokeCache = new Map();
-        this.fractalCtx = createFractalLandmarks(12345); // optional seed
+        this.fractalCtx = createFractalLandmarks(model.board.seed);
+        this.selectionGfx = new Graphics();
+        this.renderer = new StrokeRenderer(this);
 
         this.canvasTool = new DrawTool(this);
+        this.panGesture = new PanTool(this);
         this.drawState = {
             frozen: false,
             active: false,
             pointerID: -1,
             pts: [],
+            pressure: null,
+            anchor: null,
             g: null,
             width: 2,
             color: colorPallet.seafoam,
@@ -83,7 +137,7 @@ export class CanvasView {
 
         // This is an async constructor pattern. We run the async setup
         // and then kick off listeners and rendering.
-        this._init(targetElement, options);
+        this.ready = this._init(targetElement, options);
     }
 
     private async _init(targetElement: HTMLElement, options: Partial<CanvasViewOptions>) {
@@ -95,14 +149,19 @@ export class CanvasView {
         this.app.canvas.style.touchAction = "none"; // prevent page-scroll / pinch-zoom
 
         this.app.stage.addChild(this.world);
+        this.app.stage.addChild(this.selectionGfx); // screen-space, above the world
         this.world.addChildAt(this.fractalCtx.container, 0); // background under strokes
-        this.world.scale.set(this.getZoom());
+        this.world.addChildAt(this.renderer.layer, 1); // merged small strokes, under the individual ones
+        this.world.scale.set(this.localScale);
         this.world.x = this.app.renderer.width * 0.5;
         this.world.y = this.app.renderer.height * 0.5;
         // centerFractal(this.fractalCtx, this.app.renderer);
+        if (this.model.board.camera) this.jumpTo(this.model.board.camera);
         this._initListeners(options);
-        this.overlay = new NotecardOverlay(this);
-        this.overlay.init();
+        if (options.notecards !== false) {
+            this.overlay = new NotecardOverlay(this);
+            this.overlay.init();
+        }
         this._startRenderLoop();
 
         // When activeTool appState is updated, set the tool active in every canvas. Note this means that different tools cannot be active in different canvases. For now that's the behaivior we want.
@@ -110,6 +169,32 @@ export class CanvasView {
             (s) => s.activeTool,
             (tool) => getCanvasTool(this, tool) // Note that sub-canvases will have empty tools (no pointer events)
         );
+        // Keyed on the id, so renaming the open board does not reset the view
+        this.model.store.subscribe(
+            (s) => s.board.id,
+            () => this._showBoard(this.model.board)
+        );
+    }
+
+    /** Drops everything tied to the previous board and shows `board` where its camera was left. */
+    private _showBoard(board: BoardInfo): void {
+        this.cancelFlyTo();
+        this.canvasTool.cancel?.();
+        this.panGesture.cancel();
+        this.selection = null;
+        this.lasso = null;
+        this.renderer.reset();
+
+        this.fractalCtx.container.destroy({ children: true });
+        this.fractalCtx = createFractalLandmarks(board.seed);
+        this.world.addChildAt(this.fractalCtx.container, 0);
+
+        if (board.camera) this.jumpTo(board.camera);
+        else this._setCamera(HOME_CAMERA);
+    }
+
+    get strokePipeline(): StrokePipelineOptions {
+        return { ...DEFAULT_STROKE_PIPELINE, ...this.options.strokePipeline };
     }
 
     getZoomObj(): Zoom {
@@ -126,39 +211,80 @@ export class CanvasView {
                 if (options.mainCanvas === false) e.stopPropagation();
                 if (this.drawState.frozen) return;
                 if (e.target && blockDrawingEvent(e.target as HTMLElement, options.mainCanvas ?? false)) return;
+                this.cancelFlyTo();
                 const localCoords = this.getLocalCoordsFromEvent(e);
-                const worldPoint = this.screenToWorld(localCoords.x, localCoords.y);
-
-                this._updateZoom(e.deltaY);
-                const newZoom = this.getZoom();
-
-                this.world.scale.set(newZoom);
-                this.world.x = e.clientX - worldPoint.x * newZoom;
-                this.world.y = e.clientY - worldPoint.y * newZoom;
+                this.zoomAbout(localCoords.x, localCoords.y, e.deltaY < 0 ? 1.1 : 0.9);
             },
             { passive: false }
         );
 
         canvas.addEventListener("pointerdown", (e) => {
+            this.cancelFlyTo(); // any touch interrupts an animated flight
+            const started = this._startTemporaryPan(e);
+            if (e.pointerType === "touch") {
+                const { x, y } = this.getLocalCoordsFromEvent(e);
+                this.touches.set(e.pointerId, [x, y]);
+            }
+            if (started || this._enterWormhole(e)) return;
             this.canvasTool.pointerDown(e);
         });
 
         canvas.addEventListener(
             "pointermove",
             (e) => {
-                this.canvasTool.pointerMove(e);
+                if (this.touches.has(e.pointerId)) {
+                    const { x, y } = this.getLocalCoordsFromEvent(e);
+                    this.touches.set(e.pointerId, [x, y]);
+                }
+                if (this.panGesture.has(e.pointerId)) this.panGesture.pointerMove(e);
+                else this.canvasTool.pointerMove(e);
             },
             { passive: false }
         );
 
-        canvas.addEventListener("pointerup", (e) => {
-            this.canvasTool.pointerUp(e);
+        const pointerEnd = (e: PointerEvent) => {
+            this.touches.delete(e.pointerId);
+            if (this.panGesture.has(e.pointerId)) this.panGesture.pointerUp(e);
+            else this.canvasTool.pointerUp(e);
+        };
+        canvas.addEventListener("pointerup", pointerEnd);
+        canvas.addEventListener("pointercancel", pointerEnd);
+
+        // Holding space turns any tool into a pan tool until it is released
+        document.addEventListener("keydown", (e) => {
+            if (e.code !== "Space" || e.repeat || isTextTarget(e.target)) return;
+            e.preventDefault();
+            this.spaceHeld = true;
+            this.app.canvas.style.cursor = "grab";
         });
-        canvas.addEventListener("pointercancel", (e) => {
-            this.canvasTool.pointerUp(e);
+        document.addEventListener("keyup", (e) => {
+            if (e.code !== "Space") return;
+            this.spaceHeld = false;
+            this.app.canvas.style.cursor = "";
         });
     }
 
+    /**
+     * Routes a pointer to the temporary pan gesture instead of the active tool when it is a middle
+     * button press, space is held, a gesture is already running, or it is the second finger on a
+     * touch screen. A second finger takes over the first one too, cancelling what it was doing.
+     * @returns true if the pointer now belongs to the gesture.
+     */
+    private _startTemporaryPan(e: PointerEvent): boolean {
+        if (this.canvasTool instanceof PanTool) return false; // it already handles everything
+        const secondTouch = e.pointerType === "touch" && this.touches.size === 1;
+        if (!(e.button === 1 || this.spaceHeld || secondTouch || this.panGesture.active)) return false;
+        if (e.button === 1) e.preventDefault(); // no autoscroll
+
+        if (secondTouch && !this.panGesture.active) {
+            this.canvasTool.cancel?.();
+            const [[id, p]] = this.touches;
+            this.panGesture.addPointer(id, p);
+        }
+        this.panGesture.pointerDown(e);
+        return this.panGesture.has(e.pointerId);
+    }
+
     getLocalCoordsFromEvent(event: { clientX: number; clientY: number }): { x: number; y: number } {
         const rect = this.app.canvas.getBoundingClientRect();
         return {
@@ -169,39 +295,146 @@ export class CanvasView {
     /** Starts the PIXI ticker for continuous rendering. */
     private _startRenderLoop(): void {
         this.app.ticker.add(() => {
+            this._rebaseOrigin();
             this.overlay?.beginFrame();
             const viewRect = this.getViewRect();
 
             // Update background landmarks
-            updateFractalLandmarks(this.fractalCtx, viewRect, this.getZoom());
+            updateFractalLandmarks(this.fractalCtx, this.getCameraFrame(), this.getFrameViewRect(), this.getZoom());
 
-            // Get only the strokes visible in this view's viewport from the shared model
+            // Get only the items visible in this view's viewport from the shared model, and draw them
             const visible = this.model.getVisibleItems(viewRect);
-
-            // Hide all cached graphics except the live drawing one
-            this.strokeCache.forEach((g, id) => {
-                if (id !== "temp") g.visible = false;
-            });
-
-            // Draw and show the visible strokes
-            for (const item of visible) {
-                if (isStroke(item)) {
-                    let g = this.strokeCache.get(item.id);
-                    if (!g) {
-                        g = new Graphics();
-                        this.strokeCache.set(item.id, g);
-                        this.world.addChild(g);
-                    }
-                    this.drawStroke(g, item, this.getZoom());
-                    g.visible = true;
-                } else if (isTextCard(item) && this.overlay) {
-                    this.overlay.syncPosition(item);
-                }
+            this.renderer.render(visible);
+            // The stroke being drawn lives in its own anchor frame too
+            const temp = this.strokeCache.get("temp");
+            if (temp && this.drawState.anchor) {
+                this.placeGraphics(temp, { origin: this.drawState.anchor, exp: this.drawState.anchor.exp });
             }
+
             this.overlay?.endFrame();
+            drawSelectionOverlay(this.selectionGfx, this.selection, this.lasso, (frame, p) => this.frameToScreen(frame, p));
         });
     }
 
+    /**
+     * Moves the camera so `target` is centered at its stored zoom.
+     * @param target A view rect and zoom, as captured by getViewRect() and getZoomObj(), plus the exact center if known.
+     */
+    jumpTo(target: CameraTarget): void {
+        this.cancelFlyTo();
+        this._setCamera(this._targetToCamera(target));
+    }
+
+    /**
+     * Animates the camera to `target` on the Pixi ticker. Zoom is interpolated in log space,
+     * so a trip across many powers of two takes a few seconds rather than forever.
+     * @returns Resolves true when the camera arrives, false if the flight was interrupted by
+     * user input, cancelFlyTo() or another flyTo().
+     */
+    flyTo(target: CameraTarget, opts: Partial<FlyToOptions> = {}): Promise<boolean> {
+        this.cancelFlyTo();
+
+        const from = this.getCameraState();
+        const to = this._targetToCamera(target);
+        const duration = opts.duration ?? flightDuration(from, to, this.app.renderer.width);
+        const easing = opts.easing ?? easeInOutCubic;
+
+        const flight = new Promise<boolean>((resolve) => {
+            let elapsed = 0;
+            const step = () => {
+                elapsed += this.app.ticker.deltaMS;
+                const t = duration <= 0 ? 1 : Math.min(1, elapsed / duration);
+                this._setCamera(interpolateCamera(from, to, easing(t)));
+                if (t >= 1) finish(true);
+            };
+            const finish = (arrived: boolean) => {
+                this.app.ticker.remove(step);
+                this.cancelFlight = null;
+                resolve(arrived);
+            };
+            this.cancelFlight = () => finish(false);
+            this.app.ticker.add(step);
+        });
+        for (const listener of this.flightListeners) listener(flight);
+        return flight;
+    }
+
+    /**
+     * Calls `listener` whenever a flyTo starts, with the promise it returns. Jumps, pans and zooms
+     * are not reported. Returns an unsubscribe function.
+     */
+    onFlight(listener: (arrived: Promise<boolean>) => void): () => void {
+        this.flightListeners.add(listener);
+        return () => this.flightListeners.delete(listener);
+    }
+
+    cancelFlyTo(): void {
+        this.cancelFlight?.();
+    }
+
+    /** The camera as the exact world point at the screen center plus the zoom. */
+    getCameraState(): CameraState {
+        const center = this.screenToDeep(this.app.renderer.width / 2, this.app.renderer.height / 2);
+        return { center, zoom: this.getZoomObj() };
+    }
+
+    /** A target that brings the camera back to exactly where it is now. */
+    getCameraTarget(): CameraTarget {
+        const { center } = this.getCameraState();
+        return { ...this.getViewRect(), zoom: this.getZoomObj(), center: toAnchor(center) };
+    }
+
+    /** A target that centers `item` at the zoom it was made at, wherever in the world it is. */
+    getItemTarget(item: QuadItem): CameraTarget {
+        const zoom = "zoom" in item.data ? item.data.zoom : { zoomExp: itemFrame(item).exp, localScale: 1 };
+        return { x: item.x, y: item.y, width: item.width, height: item.height, zoom, center: toAnchor(itemsCenter([item])!) };
+    }
+
+    private _setCamera(camera: CameraState): void {
+        this.zoomExp = camera.zoom.zoomExp;
+        this.localScale = camera.zoom.localScale;
+        this.origin = deepRescale(camera.center, this.zoomExp + SUBPIXEL_BITS);
+        this.world.scale.set(this.localScale);
+        this.world.x = this.app.renderer.width / 2;
+        this.world.y = this.app.renderer.height / 2;
+    }
+
+    private _targetToCamera(target: CameraTarget): CameraState {
+        const center = target.center
+            ? fromAnchor(target.center)
+            : deepFromWorld(target.x + target.width / 2, target.y + target.height / 2, target.zoom.zoomExp + SUBPIXEL_BITS);
+        return { center, zoom: target.zoom };
+    }
+
+    /**
+     * Moves the origin back under the screen center once it has drifted far away, and onto the grid of the
+     * current zoom, so camera-frame coordinates stay small.
+     */
+    private _rebaseOrigin(): void {
+        const drifted = Math.abs(this.world.x) > REBASE_PX || Math.abs(this.world.y) > REBASE_PX;
+        if (!drifted && this.origin.exp === this.zoomExp + SUBPIXEL_BITS) return;
+        this._setCamera(this.getCameraState());
+    }
+
+    /** Travels through a wormhole under the pointer. Returns true if the event was used. */
+    private _enterWormhole(e: PointerEvent): boolean {
+        const tool = appStore.getState().activeTool;
+        // Sub-canvases leave clicks to their own tool
+        if (!this.options.mainCanvas) return false;
+        // Selecting, erasing and connecting act on the portal itself instead of travelling through it, and a pan may start on one
+        if (tool === "select" || tool === "erase" || tool === "pan" || tool === "connector" || this.drawState.frozen) return false;
+        if (e.button !== 0 || (e.target && blockDrawingEvent(e.target as HTMLElement, this.options.mainCanvas ?? false))) return false;
+
+        const { x, y } = this.getLocalCoordsFromEvent(e);
+        const p = this.screenToWorld(x, y);
+        const candidates = this.model.getVisibleItems({ x: p.x, y: p.y, width: 0, height: 0 });
+        const wormhole = hitWormhole(candidates, (frame) => this.screenToFrame(frame, x, y));
+        if (!wormhole) return false;
+
+        this.flyTo(wormhole.data.targetPosition);
+        return true;
+    }
+
     // --- Private Helpers (previously global functions) ---
 
     getZoom(): number {
@@ -212,43 +445,122 @@ export class CanvasView {
         return (strokeWidth / this.localScale) * Math.pow(2, -this.zoomExp);
     }
 
-    private _updateZoom = (delta: number): void => {
-        const factor = delta < 0 ? 1.1 : 0.9;
-        this.localScale *= factor;
+    /** Zooms by `factor` keeping the world point under screen (x, y) in place. */
+    zoomAbout(x: number, y: number, factor: number): void {
+        // The point under the pivot becomes the new camera origin
+        const pivot = this.screenToDeep(x, y);
+        const zoom = scaleZoom(this.getZoomObj(), factor);
+        this.zoomExp = zoom.zoomExp;
+        this.localScale = zoom.localScale;
+
+        this.origin = deepRescale(pivot, this.zoomExp + SUBPIXEL_BITS);
+        this.world.scale.set(this.localScale);
+        this.world.x = x;
+        this.world.y = y;
+    }
 
-        while (this.localScale >= 2) {
-            this.localScale /= 2;
-            this.zoomExp++;
-        }
-        while (this.localScale < 0.5) {
-            this.localScale *= 2;
-            this.zoomExp--;
-        }
-    };
+    /** Moves the view by a screen-space offset. */
+    panBy(dx: number, dy: number): void {
+        this.world.x += dx;
+        this.world.y += dy;
+    }
+
+    /** The camera frame: units of 2^-zoomExp world units, relative to the camera origin. */
+    getCameraFrame(): Frame {
+        return { origin: this.origin, exp: this.zoomExp };
+    }
 
+    /** Exact world position under a screen point. */
+    screenToDeep(x: number, y: number): DeepPoint {
+        return deepOffset(this.origin, (x - this.world.x) / this.localScale, (y - this.world.y) / this.localScale, this.zoomExp);
+    }
+
+    /** A screen point in the coordinates of `frame`. */
+    screenToFrame(frame: Frame, x: number, y: number): Point {
+        const c: Point = [(x - this.world.x) / this.localScale, (y - this.world.y) / this.localScale];
+        return convertPoint(this.getCameraFrame(), frame, c);
+    }
+
+    /** Screen position of a point given in `frame`. */
+    frameToScreen(frame: Frame, p: Point): Point {
+        const [cx, cy] = convertPoint(frame, this.getCameraFrame(), p);
+        return [this.world.x + cx * this.localScale, this.world.y + cy * this.localScale];
+    }
+
+    /** Screen pixels per unit of 2^-exp world units. */
+    pxPerUnit(exp: number): number {
+        return this.localScale * Math.pow(2, this.zoomExp - exp);
+    }
+
+    /** Approximate world position under a screen point; fine for quadtree queries, not for storing. */
     screenToWorld(x: number, y: number): { x: number; y: number } {
-        const inv = 1 / this.getZoom();
-        return { x: (x - this.world.x) * inv, y: (y - this.world.y) * inv };
+        return deepToWorld(this.screenToDeep(x, y));
     }
 
+    /**
+     * Approximate world rect on screen, for quadtree queries. Padded by the rounding error of float
+     * world coordinates here, so items too deep for their bbox to be exact are still found.
+     */
     getViewRect(): BBox {
         const z = this.getZoom();
+        const topLeft = this.screenToWorld(0, 0);
+        const pad = (Math.abs(topLeft.x) + Math.abs(topLeft.y)) * Math.pow(2, -48);
+        return {
+            x: topLeft.x - pad,
+            y: topLeft.y - pad,
+            width: this.app.renderer.width / z + pad * 2,
+            height: this.app.renderer.height / z + pad * 2,
+        };
+    }
+
+    /** The screen rect in camera-frame coordinates. */
+    getFrameViewRect(): BBox {
         return {
-            x: -this.world.x / z,
-            y: -this.world.y / z,
-            width: this.app.renderer.width / z,
-            height: this.app.renderer.height / z,
+            x: -this.world.x / this.localScale,
+            y: -this.world.y / this.localScale,
+            width: this.app.renderer.width / this.localScale,
+            height: this.app.renderer.height / this.localScale,
         };
     }
 
-    drawStroke(g: Graphics & { lastZoom?: number }, rect: QuadItem<StrokeProperties>, z: number): void {
-        if (rect.id !== "temp" && g.lastZoom === z) return;
+    /**
+     * Positions graphics drawn in an item's own units inside the world container.
+     * @param preview An uncommitted selection transform, given in the selection's frame.
+     */
+    placeGraphics(g: Container, frame: Frame, preview: { frame: Frame; transform: ItemTransform } | null = null): void {
+        const camera = this.getCameraFrame();
+        let scaleExp = camera.exp - frame.exp;
+        let position: Point;
+        if (preview) {
+            const o = transformPoint(convertPoint(frame, preview.frame, [0, 0]), preview.transform);
+            position = convertPoint(preview.frame, camera, o);
+            scaleExp += Math.log2(preview.transform.scale);
+        } else {
+            position = convertPoint(frame, camera, [0, 0]);
+        }
+
+        // Far too small to see or far too big to draw: either way nothing sensible reaches the screen
+        g.visible = Math.abs(scaleExp) < MAX_SCALE_EXP && Number.isFinite(position[0]) && Number.isFinite(position[1]);
+        if (!g.visible) return;
+        g.scale.set(Math.pow(2, scaleExp));
+        g.position.set(position[0], position[1]);
+    }
+
+    /** Builds a stroke's geometry in its own units. Only rebuilt when its points change. */
+    drawStroke(g: Graphics & { lastPts?: unknown }, rect: QuadItem<StrokeProperties>): void {
+        // Model edits replace the pts array, so identity tells us the geometry changed
+        if (rect.id !== "temp" && g.lastPts === rect.data.pts) return;
 
-        const s = rect.data;
+        const s = this.strokePipeline.smoothing ? smoothStroke(rect.data) : rect.data;
         g.clear();
-        g.moveTo(...s.pts[0]);
-        for (let i = 1; i < s.pts.length; i++) g.lineTo(...s.pts[i]);
-        g.stroke({ width: s.stroke.width, color: s.stroke.color });
-        g.lastZoom = z;
+        const radii = strokeRadii(s);
+        if (radii) {
+            drawPressureStroke(g, s, radii);
+        } else {
+            g.moveTo(...s.pts[0]);
+            for (let i = 1; i < s.pts.length; i++) g.lineTo(...s.pts[i]);
+            g.stroke({ width: s.stroke.width, color: s.stroke.color });
+        }
+        g.lastPts = rect.data.pts;
     }
 }
@@ -0,0 +1,55 @@
+// canvas/cameraFlight.ts
+import { Zoom } from "./types";
+import { log2ToZoom, zoomToLog2 } from "./zoom";
+import { DeepPoint, deepDiff, deepTowards } from "./deepCoords";
+
+/** The exact world point at the screen center plus the zoom. */
+export type CameraState = { center: DeepPoint; zoom: Zoom };
+
+export type FlyToOptions = {
+    /** Total duration in ms. Defaults to a length that grows with the zoom distance. */
+    duration: number;
+    easing: (t: number) => number;
+};
+
+export const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+const BASE_MS = 350;
+/** Extra time per power of two of zoom travelled. */
+const MS_PER_OCTAVE = 90;
+/** Extra time per screen-width of panning at the slower of the two zooms. */
+const MS_PER_SCREEN = 150;
+const MAX_MS = 5000;
+
+/** A flight duration that stays reasonable for a 30-octave dive as well as a short pan. */
+export function flightDuration(from: CameraState, to: CameraState, screenWidth: number): number {
+    const octaves = Math.abs(zoomToLog2(to.zoom) - zoomToLog2(from.zoom));
+    // Distance in screen px at the slower zoom, measured on its own grid so it neither overflows nor underflows
+    const minLevel = Math.min(zoomToLog2(from.zoom), zoomToLog2(to.zoom));
+    const unitExp = Math.floor(minLevel);
+    const d = deepDiff(to.center, from.center, unitExp);
+    const screens = (Math.hypot(d.x, d.y) * Math.pow(2, minLevel - unitExp)) / Math.max(screenWidth, 1);
+    return Math.min(MAX_MS, BASE_MS + octaves * MS_PER_OCTAVE + Math.min(screens, 10) * MS_PER_SCREEN);
+}
+
+/**
+ * Camera at progress t ∈ [0, 1] (already eased).
+ * Zoom moves linearly in log2 space. The center moves in proportion to the visible world width
+ * (1 / scale), so a dive keeps the destination under the zoom and a climb leaves it last.
+ */
+export function interpolateCamera(from: CameraState, to: CameraState, t: number): CameraState {
+    if (t >= 1) return to;
+    const l0 = zoomToLog2(from.zoom);
+    const l1 = zoomToLog2(to.zoom);
+    const level = l0 + (l1 - l0) * t;
+
+    // Share of the way still to go. Written relative to the destination, (2^(l1-level) − 1) / (2^(l1-l0) − 1),
+    // so near the end of a deep dive it is tiny but exact instead of 1 − (almost 1).
+    let rest = 1 - t;
+    if (Math.abs(l1 - l0) > 1e-6) rest = Math.expm1((l1 - level) * Math.LN2) / Math.expm1((l1 - l0) * Math.LN2);
+
+    return {
+        center: deepTowards(from.center, to.center, rest),
+        zoom: log2ToZoom(level),
+    };
+}
@@ -0,0 +1,146 @@
+// canvas/canvasTools/ConnectorTool.ts
+
+import { Graphics } from "pixi.js";
+import { CanvasView } from "../CanvasView";
+import { CanvasTool, colorPallet, ConnectorData, ConnectorProperties, isConnector, isStroke, Point, QuadItem } from "../types";
+import { blockDrawingEvent } from "./DrawTool";
+import { itemFrame } from "../deepCoords";
+import { pointsBBox, polylineDistance } from "../geometry";
+import { maxStrokeRadius } from "../strokeOutline";
+import { hitWormhole } from "../wormhole";
+import { routeDistance } from "../connector";
+
+/** How close (screen px) the pointer must be to a stroke or connector to pick it. */
+const HIT_PX = 8;
+/** Width of new connectors, in screen px at the zoom they are drawn at. */
+const CONNECTOR_PX = 2;
+
+/** Arrowheads a connector cycles through on Alt-click. */
+const ARROW_CYCLE: ConnectorData["arrows"][] = [
+    { start: false, end: true },
+    { start: true, end: true },
+    { start: false, end: false },
+    { start: true, end: false },
+];
+
+/**
+ * Drag from one item (card, wormhole or stroke) to another to connect them. Clicking a connector
+ * edits its label; Alt-clicking it cycles its arrowheads.
+ */
+export class ConnectorTool implements CanvasTool {
+    private view: CanvasView;
+    private drag: { pointerId: number; from: QuadItem; start: Point } | null = null;
+    /** Screen-space line from the start of a drag to the pointer. */
+    private preview: Graphics | null = null;
+
+    constructor(view: CanvasView) {
+        this.view = view;
+        // Cards are picked as a whole rather than edited or dragged (see notecard.css)
+        document.body.classList.add("connecting");
+    }
+
+    pointerDown = (e: PointerEvent) => {
+        if (this.view.drawState.frozen || e.button !== 0) return;
+        const p = this.getScreenPoint(e);
+        const from = this.itemAt(e, p);
+        if (from) {
+            this.drag = { pointerId: e.pointerId, from, start: p };
+            return;
+        }
+        if (e.target && blockDrawingEvent(e.target as HTMLElement, true)) return;
+        const connector = this.connectorAt(p);
+        if (connector) this.editConnector(connector, e.altKey);
+    };
+
+    pointerMove(e: PointerEvent) {
+        if (!this.drag || e.pointerId !== this.drag.pointerId) return;
+        if (!this.preview) {
+            this.preview = new Graphics();
+            this.view.app.stage.addChild(this.preview);
+        }
+        this.preview
+            .clear()
+            .moveTo(...this.drag.start)
+            .lineTo(...this.getScreenPoint(e))
+            .stroke({ width: CONNECTOR_PX, color: colorPallet.seafoam });
+    }
+
+    pointerUp(e: PointerEvent) {
+        if (!this.drag || e.pointerId !== this.drag.pointerId) return;
+        const { from } = this.drag;
+        const to = this.itemAt(e, this.getScreenPoint(e));
+        this.cancel();
+        if (!to || to.id === from.id) return;
+
+        const zoom = this.view.getZoomObj();
+        this.view.model
+            .addConnector({
+                type: "connector",
+                from: from.id,
+                to: to.id,
+                arrows: { start: false, end: true },
+                stroke: { width: CONNECTOR_PX / zoom.localScale, color: colorPallet.seafoam },
+                zoom,
+            })
+            .catch((err) => console.error("ConnectorTool: saving the connector failed", err));
+    }
+
+    cancel() {
+        this.drag = null;
+        this.preview?.destroy();
+        this.preview = null;
+    }
+
+    deactivate() {
+        this.cancel();
+        document.body.classList.remove("connecting");
+    }
+
+    private getScreenPoint(e: PointerEvent): Point {
+        const { x, y } = this.view.getLocalCoordsFromEvent(e);
+        return [x, y];
+    }
+
+    /** The card under the pointer, or else the wormhole or stroke under it. */
+    private itemAt(e: PointerEvent, [x, y]: Point): QuadItem | undefined {
+        const card = (e.target as HTMLElement | null)?.closest<HTMLElement>(".notecard");
+        if (card) return this.view.model.getItem(card.dataset.id ?? "");
+        if (e.target && blockDrawingEvent(e.target as HTMLElement, true)) return undefined;
+
+        const candidates = this.candidatesAt([x, y]);
+        const wormhole = hitWormhole(candidates, (frame) => this.view.screenToFrame(frame, x, y));
+        if (wormhole) return wormhole;
+        return candidates.filter(isStroke).find((s) => {
+            const frame = itemFrame(s);
+            const p = this.view.screenToFrame(frame, x, y);
+            return polylineDistance(s.data.pts, p, p) <= HIT_PX / this.view.pxPerUnit(frame.exp) + maxStrokeRadius(s.data);
+        });
+    }
+
+    private connectorAt([x, y]: Point): QuadItem<ConnectorProperties> | undefined {
+        return this.candidatesAt([x, y])
+            .filter(isConnector)
+            .find((c) => {
+                const route = this.view.model.getConnectorRoute(c.id);
+                if (!route) return false;
+                const p = this.view.screenToFrame({ origin: route.origin, exp: route.exp }, x, y);
+                return routeDistance(route, p, p) <= HIT_PX / this.view.pxPerUnit(route.exp) + c.data.stroke.width / 2;
+            });
+    }
+
+    private candidatesAt([x, y]: Point): QuadItem[] {
+        const w = this.view.screenToWorld(x, y);
+        return this.view.model.getVisibleItems(pointsBBox([[w.x, w.y]], this.view.getScaledStroke(HIT_PX)));
+    }
+
+    private editConnector(connector: QuadItem<ConnectorProperties>, cycleArrows: boolean): void {
+        const { arrows, label } = connector.data;
+        if (cycleArrows) {
+            const i = ARROW_CYCLE.findIndex((a) => a.start === arrows.start && a.end === arrows.end);
+            this.view.model.updateConnector(connector.id, { arrows: ARROW_CYCLE[(i + 1) % ARROW_CYCLE.length] });
+            return;
+        }
+        const text = window.prompt("Connector label (empty to remove):", label ?? "");
+        if (text !== null) this.view.model.updateConnector(connector.id, { label: text.trim() });
+    }
+}
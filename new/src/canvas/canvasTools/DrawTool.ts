@@ -1,12 +1,14 @@
 import { Graphics } from "pixi.js";
 import { CanvasView } from "../CanvasView";
-import { CanvasTool, getQuadItem, StrokeData } from "../types";
+import { CanvasTool, getQuadItem, Point, StrokeData } from "../types";
+import { deepRescale, Frame } from "../deepCoords";
+import { simplifyStroke } from "../strokePipeline";
 
 export const blockDrawingEvent = (target: HTMLElement, mainCanvas: boolean) => {
-    // If the target is in a parent that is a button, notecard, or sub-canvas
+    // If the target is in a parent that is a button, select, input, notecard, sub-canvas or search result list
     let result: boolean;
     if (mainCanvas) {
-        result = !!target.closest("button,.notecard,.sub-canvas");
+        result = !!target.closest("button,select,input,.notecard,.sub-canvas,.search-results");
     } else {
         result = false;
     }
@@ -31,10 +33,15 @@ export class DrawTool implements CanvasTool {
         this.view.drawState.active = true;
         this.view.drawState.pointerID = e.pointerId;
         this.view.drawState.pts = [];
+        // Only pens report a real pressure; mice and fingers keep the constant-width look
+        this.view.drawState.pressure = e.pointerType === "pen" ? [] : null;
         const localCoords = this.view.getLocalCoordsFromEvent(e);
-        const worldPoint = this.view.screenToWorld(localCoords.x, localCoords.y);
+        // The stroke is anchored where it starts, in units of the current zoom
+        const { exp } = this.view.getCameraFrame();
+        this.view.drawState.anchor = deepRescale(this.view.screenToDeep(localCoords.x, localCoords.y), exp);
 
-        this.view.drawState.pts.push([worldPoint.x, worldPoint.y]);
+        this.view.drawState.pts.push(this.getStrokePoint(localCoords.x, localCoords.y));
+        this.view.drawState.pressure?.push(e.pressure);
 
         this.view.drawState.g = new Graphics();
         this.view.strokeCache.set("temp", this.view.drawState.g);
@@ -49,12 +56,13 @@ export class DrawTool implements CanvasTool {
         if (this.view.drawState.frozen || !this.view.drawState.active || e.pointerId !== this.view.drawState.pointerID) return;
         if (e.target && blockDrawingEvent(e.target as HTMLElement, this.view.options.mainCanvas ?? false)) return;
         const localCoords = this.view.getLocalCoordsFromEvent(e);
-        const worldPoint = this.view.screenToWorld(localCoords.x, localCoords.y);
+        const p = this.getStrokePoint(localCoords.x, localCoords.y);
 
         const last = this.view.drawState.pts[this.view.drawState.pts.length - 1];
-        if (Math.hypot(worldPoint.x - last[0], worldPoint.y - last[1]) < 1 / this.view.getZoom()) return;
+        if (Math.hypot(p[0] - last[0], p[1] - last[1]) < 1 / this.strokePxPerUnit()) return;
 
-        this.view.drawState.pts.push([worldPoint.x, worldPoint.y]);
+        this.view.drawState.pts.push(p);
+        this.view.drawState.pressure?.push(e.pressure);
 
         const tempRect = getQuadItem({
             id: "temp",
@@ -62,13 +70,9 @@ export class DrawTool implements CanvasTool {
             y: 0,
             width: 0,
             height: 0,
-            data: {
-                type: "stroke-rect",
-                pts: this.view.drawState.pts,
-                stroke: { width: this.view.getScaledStroke(this.view.drawState.width), color: this.view.drawState.color },
-            },
+            data: this.strokeData(),
         });
-        this.view.drawStroke(this.view.drawState.g!, tempRect, this.view.getZoom());
+        this.view.drawStroke(this.view.drawState.g!, tempRect);
     } // no‑op
     pointerUp(e: PointerEvent) {
         if (e.pointerId === this.view.drawState.pointerID) {
@@ -78,21 +82,56 @@ export class DrawTool implements CanvasTool {
                 this.view.drawState.g = null;
             }
 
-            if (this.view.drawState.frozen || !this.view.drawState.active || this.view.drawState.pts.length < 2) {
+            const anchor = this.view.drawState.anchor;
+            if (this.view.drawState.frozen || !this.view.drawState.active || !anchor || this.view.drawState.pts.length < 2) {
                 this.view.drawState.active = false;
+                this.view.drawState.anchor = null;
                 return;
             }
 
-            const data: StrokeData = {
-                type: "stroke-rect",
-                pts: this.view.drawState.pts,
-                stroke: { width: this.view.getScaledStroke(this.view.drawState.width), color: this.view.drawState.color },
-            };
+            // Drop the nearly collinear points a slow hand produces before they reach the DB
+            const data = simplifyStroke(this.strokeData(), this.strokePxPerUnit(), this.view.strokePipeline);
+            this.view.drawState.anchor = null;
 
             // This is the key interaction: the view asks the model to add the stroke.
-            this.view.model.addStroke(data);
+            this.view.model.addStroke(data, anchor).catch((err) => console.error("DrawTool: saving the stroke failed", err));
 
             this.view.drawState.active = false;
         }
     } // no‑op
+
+    cancel() {
+        if (this.view.drawState.g) {
+            this.view.world.removeChild(this.view.drawState.g);
+            this.view.strokeCache.delete("temp");
+            this.view.drawState.g = null;
+        }
+        this.view.drawState.active = false;
+        this.view.drawState.anchor = null;
+    }
+
+    /** The stroke drawn so far, in anchor units. */
+    private strokeData(): StrokeData {
+        const { pts, pressure, width, color } = this.view.drawState;
+        return {
+            type: "stroke-rect",
+            pts,
+            ...(pressure && { pressure }),
+            stroke: { width: width / this.strokePxPerUnit(), color },
+        };
+    }
+
+    private strokeFrame(): Frame {
+        const anchor = this.view.drawState.anchor!;
+        return { origin: anchor, exp: anchor.exp };
+    }
+
+    private strokePxPerUnit(): number {
+        return this.view.pxPerUnit(this.strokeFrame().exp);
+    }
+
+    /** A screen point relative to the stroke anchor. */
+    private getStrokePoint(x: number, y: number): Point {
+        return this.view.screenToFrame(this.strokeFrame(), x, y);
+    }
 }
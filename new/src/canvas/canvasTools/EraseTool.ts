@@ -0,0 +1,223 @@
+// canvas/canvasTools/EraseTool.ts
+
+import { Graphics } from "pixi.js";
+import { CanvasView } from "../CanvasView";
+import { CanvasTool, colorPallet, ConnectorProperties, isConnector, isStroke, Point, QuadItem, StrokeData, StrokeProperties } from "../types";
+import { Anchor, convertPoint, Frame, frameBBoxToWorld, itemFrame, toAnchor } from "../deepCoords";
+import { appStore } from "../../appState";
+import { distToSegment, pointsBBox, polylineDistance, segmentDistance } from "../geometry";
+import { blockDrawingEvent } from "./DrawTool";
+import { maxStrokeRadius } from "../strokeOutline";
+import { routeDistance } from "../connector";
+
+/** Eraser radius in screen pixels; converted to each stroke's units at the zoom it was moved at. */
+const ERASER_RADIUS_PX = 10;
+
+/** A point of a stroke with its pen pressure, if the stroke has any. */
+type Sample = { pt: Point; pressure: number | undefined };
+
+/** A pointer position in the camera frame of the moment it was captured. */
+type EraserPoint = { frame: Frame; pt: Point };
+
+/**
+ * A stretch of the eraser's path from a to b and its radius, in units of `frame`. Fixed when the
+ * pointer moves, so panning or zooming before it is erased does not shift it.
+ */
+type EraserSegment = { frame: Frame; a: Point; b: Point; radius: number };
+
+/** The same segment in the units of `frame`. */
+function segmentIn(seg: EraserSegment, frame: Frame): EraserSegment {
+    const k = Math.pow(2, frame.exp - seg.frame.exp);
+    return { frame, a: convertPoint(seg.frame, frame, seg.a), b: convertPoint(seg.frame, frame, seg.b), radius: seg.radius * k };
+}
+
+/**
+ * Cuts the part of a stroke within `tol` of the eraser segment a–b.
+ * Segments near the eraser are resampled at `step` so a long segment can be cut in its middle;
+ * pressure is interpolated along with the points.
+ * @returns The surviving runs, or null if nothing was erased.
+ */
+function splitStroke(data: StrokeData, a: Point, b: Point, tol: number, step: number): StrokeData[] | null {
+    const { pts, pressure } = data;
+    const dense: Sample[] = [{ pt: pts[0], pressure: pressure?.[0] }];
+    for (let i = 1; i < pts.length; i++) {
+        const p = pts[i - 1];
+        const q = pts[i];
+        if (segmentDistance(p, q, a, b) <= tol) {
+            const n = Math.min(Math.ceil(Math.hypot(q[0] - p[0], q[1] - p[1]) / step), 1000);
+            for (let k = 1; k < n; k++) {
+                const t = k / n;
+                dense.push({
+                    pt: [p[0] + (q[0] - p[0]) * t, p[1] + (q[1] - p[1]) * t],
+                    pressure: pressure && pressure[i - 1] + (pressure[i] - pressure[i - 1]) * t,
+                });
+            }
+        }
+        dense.push({ pt: q, pressure: pressure?.[i] });
+    }
+
+    const runs: Sample[][] = [];
+    let run: Sample[] = [];
+    let erased = false;
+    for (const s of dense) {
+        if (distToSegment(s.pt, a, b) <= tol) {
+            erased = true;
+            if (run.length >= 2) runs.push(run);
+            run = [];
+        } else {
+            run.push(s);
+        }
+    }
+    if (run.length >= 2) runs.push(run);
+    if (!erased) return null;
+
+    return runs.map((r) => ({
+        ...data,
+        pts: r.map((s) => s.pt),
+        ...(pressure && { pressure: r.map((s) => s.pressure ?? 0.5) }),
+    }));
+}
+
+export class EraseTool implements CanvasTool {
+    private view: CanvasView;
+    private active = false;
+    private pointerID = -1;
+    /** Previous pointer position; each stroke converts it to its own frame. */
+    private last: EraserPoint | null = null;
+    /** One history group per drag, so a whole eraser gesture is one undo step. */
+    private historyGroup = "";
+    /**
+     * The erasing of each pointer move, run one after the other so every undo step of a drag is
+     * pushed before its history group is closed.
+     */
+    private erasing: Promise<void> = Promise.resolve();
+    private cursor: Graphics | null = null;
+
+    constructor(view: CanvasView) {
+        this.view = view;
+    }
+
+    get canvas(): HTMLElement {
+        return this.view.options.mainCanvas ? document.body : this.view.app.canvas;
+    }
+
+    pointerDown = (e: PointerEvent) => {
+        if (this.view.drawState.frozen || (e.button !== 0 && e.pointerType === "mouse")) return;
+        if (e.target && blockDrawingEvent(e.target as HTMLElement, this.view.options.mainCanvas ?? false)) return;
+        this.active = true;
+        this.pointerID = e.pointerId;
+        this.historyGroup = `erase:${crypto.randomUUID()}`;
+
+        const p = this.capture(e);
+        this.erase(p, p);
+        this.last = p;
+
+        this.canvas.setPointerCapture(e.pointerId);
+    };
+
+    pointerMove(e: PointerEvent) {
+        this.moveCursor(e);
+        if (this.view.drawState.frozen || !this.active || e.pointerId !== this.pointerID || !this.last) return;
+
+        const p = this.capture(e);
+        this.erase(this.last, p);
+        this.last = p;
+    }
+
+    pointerUp(e: PointerEvent) {
+        if (e.pointerId !== this.pointerID) return;
+        this.active = false;
+        this.last = null;
+        this.endGroup();
+    }
+
+    cancel() {
+        // Whatever was erased so far stays erased (and undoable); the gesture just stops here
+        this.active = false;
+        this.last = null;
+        this.endGroup();
+    }
+
+    deactivate() {
+        this.cursor?.destroy();
+        this.cursor = null;
+    }
+
+    /** The pointer where the camera shows it now. */
+    private capture(e: PointerEvent): EraserPoint {
+        const { x, y } = this.view.getLocalCoordsFromEvent(e);
+        const frame = this.view.getCameraFrame();
+        return { frame, pt: this.view.screenToFrame(frame, x, y) };
+    }
+
+    private erase(from: EraserPoint, to: EraserPoint) {
+        const group = this.historyGroup;
+        const seg: EraserSegment = {
+            frame: to.frame,
+            a: convertPoint(from.frame, to.frame, from.pt),
+            b: to.pt,
+            radius: ERASER_RADIUS_PX / this.view.pxPerUnit(to.frame.exp),
+        };
+        this.erasing = this.erasing.then(() => this.eraseAlong(seg, group)).catch((err) => console.error("EraseTool: erase failed", err));
+    }
+
+    /** Closes the drag's history group once everything it erased is recorded. */
+    private endGroup() {
+        const group = this.historyGroup;
+        this.erasing = this.erasing.then(() => this.view.model.endHistoryGroup(group));
+    }
+
+    /**
+     * Erases every stroke within reach of the eraser segment, and every connector it crosses.
+     * Connectors are only ever erased whole.
+     */
+    private async eraseAlong(seg: EraserSegment, historyGroup: string): Promise<void> {
+        const query = frameBBoxToWorld(seg.frame, pointsBBox([seg.a, seg.b], seg.radius));
+        const partial = appStore.getState().eraserMode === "partial";
+
+        const items = this.view.model.getVisibleItems(query);
+        const candidates = items.filter(isStroke);
+        const connectors = items.filter(isConnector).filter((c) => this.reaches(c, seg));
+        // First, so strokes removed below no longer take these connectors with them
+        await this.view.model.deleteConnectors(connectors, { historyGroup });
+        const removed: QuadItem<StrokeProperties>[] = [];
+        const added: { data: StrokeData; anchor: Anchor }[] = [];
+
+        for (const s of candidates) {
+            const frame = itemFrame(s);
+            const { a, b, radius } = segmentIn(seg, frame);
+            // A thick stroke is hit as soon as the eraser reaches its edge, not its centerline
+            const tol = radius + maxStrokeRadius(s.data);
+            if (polylineDistance(s.data.pts, a, b) > tol) continue;
+
+            if (!partial) {
+                removed.push(s);
+                continue;
+            }
+            const pieces = splitStroke(s.data, a, b, tol, radius / 2);
+            if (!pieces) continue;
+            removed.push(s);
+            // Pieces keep the original anchor, so their points need no conversion
+            for (const data of pieces) added.push({ data, anchor: s.anchor ?? toAnchor(frame.origin) });
+        }
+
+        await this.view.model.replaceStrokes(removed, added, { historyGroup });
+    }
+
+    private reaches(connector: QuadItem<ConnectorProperties>, seg: EraserSegment): boolean {
+        const route = this.view.model.getConnectorRoute(connector.id);
+        if (!route) return false;
+        const { a, b, radius } = segmentIn(seg, { origin: route.origin, exp: route.exp });
+        return routeDistance(route, a, b) <= radius + connector.data.stroke.width / 2;
+    }
+
+    /** Draws the eraser outline in screen space under the pointer. */
+    private moveCursor(e: PointerEvent) {
+        if (!this.cursor) {
+            this.cursor = new Graphics().circle(0, 0, ERASER_RADIUS_PX).stroke({ width: 1, color: colorPallet.seafoam });
+            this.view.app.stage.addChild(this.cursor);
+        }
+        const { x, y } = this.view.getLocalCoordsFromEvent(e);
+        this.cursor.position.set(x, y);
+    }
+}
@@ -0,0 +1,80 @@
+// canvas/canvasTools/PanTool.ts
+
+import { CanvasView } from "../CanvasView";
+import { CanvasTool, Point } from "../types";
+import { blockDrawingEvent } from "./DrawTool";
+
+/**
+ * Drag to pan, pinch with two pointers to zoom about their midpoint.
+ * The view also keeps one of these for temporary navigation (space bar, middle button and
+ * two-finger touch) while another tool is active.
+ */
+export class PanTool implements CanvasTool {
+    private view: CanvasView;
+    /** Screen positions of the pointers taking part in the gesture. */
+    private pointers = new Map<number, Point>();
+
+    constructor(view: CanvasView) {
+        this.view = view;
+    }
+
+    get canvas(): HTMLElement {
+        return this.view.options.mainCanvas ? document.body : this.view.app.canvas;
+    }
+
+    /** Whether a gesture is in progress. */
+    get active(): boolean {
+        return this.pointers.size > 0;
+    }
+
+    has(pointerId: number): boolean {
+        return this.pointers.has(pointerId);
+    }
+
+    pointerDown = (e: PointerEvent) => {
+        if (e.target && blockDrawingEvent(e.target as HTMLElement, this.view.options.mainCanvas ?? false)) return;
+        const { x, y } = this.view.getLocalCoordsFromEvent(e);
+        this.addPointer(e.pointerId, [x, y]);
+        this.canvas.setPointerCapture(e.pointerId);
+    };
+
+    /** Joins a pointer that went down before the gesture started, e.g. the first finger of a pinch. */
+    addPointer(pointerId: number, p: Point) {
+        // Two pointers are enough for pan + pinch; more would only fight each other
+        if (this.pointers.size >= 2) return;
+        this.pointers.set(pointerId, p);
+    }
+
+    pointerMove(e: PointerEvent) {
+        const prev = this.pointers.get(e.pointerId);
+        if (!prev) return;
+        const { x, y } = this.view.getLocalCoordsFromEvent(e);
+
+        if (this.pointers.size === 1) {
+            this.view.panBy(x - prev[0], y - prev[1]);
+            this.pointers.set(e.pointerId, [x, y]);
+            return;
+        }
+
+        const [a0, b0] = [...this.pointers.values()];
+        this.pointers.set(e.pointerId, [x, y]);
+        const [a1, b1] = [...this.pointers.values()];
+
+        const mid0: Point = [(a0[0] + b0[0]) / 2, (a0[1] + b0[1]) / 2];
+        const mid1: Point = [(a1[0] + b1[0]) / 2, (a1[1] + b1[1]) / 2];
+        const dist0 = Math.hypot(b0[0] - a0[0], b0[1] - a0[1]);
+        const dist1 = Math.hypot(b1[0] - a1[0], b1[1] - a1[1]);
+
+        // Zoom about the old midpoint, then carry it along to the new one
+        if (dist0 > 0 && dist1 > 0) this.view.zoomAbout(mid0[0], mid0[1], dist1 / dist0);
+        this.view.panBy(mid1[0] - mid0[0], mid1[1] - mid0[1]);
+    }
+
+    pointerUp(e: PointerEvent) {
+        this.pointers.delete(e.pointerId);
+    }
+
+    cancel() {
+        this.pointers.clear();
+    }
+}
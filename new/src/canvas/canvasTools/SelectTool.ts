@@ -0,0 +1,159 @@
+// canvas/canvasTools/SelectTool.ts
+
+import { CanvasView } from "../CanvasView";
+import { CanvasTool, Point } from "../types";
+import { pointsBBox } from "../geometry";
+import { bboxCorners, createSelection, getSelectionBBox, HANDLE_PX, selectInPolygon } from "../selection";
+import { Frame, frameBBoxToWorld } from "../deepCoords";
+import { blockDrawingEvent } from "./DrawTool";
+
+type Drag =
+    | { kind: "lasso"; marquee: boolean; start: Point }
+    | { kind: "move"; start: Point }
+    | { kind: "scale"; pivot: Point; start: Point };
+
+/** Smallest scale factor a corner drag can produce, so a selection never collapses to a point. */
+const MIN_SCALE = 0.05;
+
+/**
+ * Lasso (or shift-drag marquee) selection of strokes and cards.
+ * Dragging inside the selection moves it, dragging a corner handle scales it about the
+ * opposite corner, and Delete / Backspace removes it.
+ */
+export class SelectTool implements CanvasTool {
+    private view: CanvasView;
+    private drag: Drag | null = null;
+    private pointerID = -1;
+
+    constructor(view: CanvasView) {
+        this.view = view;
+        document.addEventListener("keydown", this.handleKeyDown);
+    }
+
+    get canvas(): HTMLElement {
+        return this.view.options.mainCanvas ? document.body : this.view.app.canvas;
+    }
+
+    pointerDown = (e: PointerEvent) => {
+        if (this.view.drawState.frozen || (e.button !== 0 && e.pointerType === "mouse")) return;
+        if (e.target && blockDrawingEvent(e.target as HTMLElement, this.view.options.mainCanvas ?? false)) return;
+        this.pointerID = e.pointerId;
+
+        const selection = this.view.selection;
+        const box = selection && getSelectionBBox(selection);
+        if (selection && box) {
+            const p = this.getFramePoint(e, selection.frame);
+            const corners = bboxCorners(box);
+            const hit = corners.findIndex((c) => this.isNearOnScreen(selection.frame, c, e));
+            if (hit !== -1) {
+                this.drag = { kind: "scale", pivot: corners[(hit + 2) % 4], start: corners[hit] };
+            } else if (p[0] >= box.x && p[0] <= box.x + box.width && p[1] >= box.y && p[1] <= box.y + box.height) {
+                this.drag = { kind: "move", start: p };
+            }
+        }
+
+        if (!this.drag) {
+            // A new lasso works in the camera frame as it is now, whatever the camera does meanwhile
+            const frame = this.view.getCameraFrame();
+            const p = this.getFramePoint(e, frame);
+            this.view.selection = null;
+            this.drag = { kind: "lasso", marquee: e.shiftKey, start: p };
+            this.view.lasso = { frame, pts: [p] };
+        }
+
+        this.canvas.setPointerCapture(e.pointerId);
+    };
+
+    pointerMove(e: PointerEvent) {
+        if (!this.drag || e.pointerId !== this.pointerID) return;
+        const drag = this.drag;
+
+        if (drag.kind === "lasso") {
+            const lasso = this.view.lasso;
+            if (!lasso) return;
+            const p = this.getFramePoint(e, lasso.frame);
+            if (drag.marquee) {
+                const [sx, sy] = drag.start;
+                lasso.pts = [
+                    [sx, sy],
+                    [p[0], sy],
+                    [p[0], p[1]],
+                    [sx, p[1]],
+                ];
+            } else {
+                const last = lasso.pts[lasso.pts.length - 1];
+                if (!last || Math.hypot(p[0] - last[0], p[1] - last[1]) >= 2 / this.view.pxPerUnit(lasso.frame.exp)) lasso.pts.push(p);
+            }
+        } else if (this.view.selection) {
+            const p = this.getFramePoint(e, this.view.selection.frame);
+            if (drag.kind === "move") {
+                this.view.selection.preview = { pivot: [0, 0], scale: 1, dx: p[0] - drag.start[0], dy: p[1] - drag.start[1] };
+            } else {
+                // Project the pointer onto the pivot → handle diagonal for a uniform scale
+                const [ax, ay] = drag.pivot;
+                const vx = drag.start[0] - ax;
+                const vy = drag.start[1] - ay;
+                const lenSq = vx * vx + vy * vy || 1;
+                const scale = Math.max(MIN_SCALE, ((p[0] - ax) * vx + (p[1] - ay) * vy) / lenSq);
+                this.view.selection.preview = { pivot: drag.pivot, scale, dx: 0, dy: 0 };
+            }
+        }
+    }
+
+    pointerUp(e: PointerEvent) {
+        if (!this.drag || e.pointerId !== this.pointerID) return;
+        const drag = this.drag;
+        this.drag = null;
+
+        if (drag.kind === "lasso") {
+            const lasso = this.view.lasso;
+            this.view.lasso = null;
+            if (!lasso || lasso.pts.length < 3) return;
+            const candidates = this.view.model.getVisibleItems(frameBBoxToWorld(lasso.frame, pointsBBox(lasso.pts)));
+            this.view.selection = createSelection(selectInPolygon(candidates, lasso.pts, lasso.frame), lasso.frame);
+            return;
+        }
+
+        const selection = this.view.selection;
+        if (!selection?.preview) return;
+        const preview = selection.preview;
+        // Keep the preview on screen until the model has the new geometry
+        this.view.model.transformItems(selection.items, preview, selection.frame).then(() => {
+            if (this.view.selection === selection) selection.preview = null;
+        });
+    }
+
+    cancel() {
+        this.drag = null;
+        this.view.lasso = null;
+        if (this.view.selection) this.view.selection.preview = null;
+    }
+
+    deactivate() {
+        document.removeEventListener("keydown", this.handleKeyDown);
+        this.view.selection = null;
+        this.view.lasso = null;
+    }
+
+    private handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key !== "Delete" && e.key !== "Backspace") return;
+        const target = e.target as HTMLElement | null;
+        if (target && (target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA")) return;
+        const selection = this.view.selection;
+        if (!selection) return;
+        e.preventDefault();
+        this.view.selection = null;
+        this.view.model.deleteItems(selection.items);
+    };
+
+    private getFramePoint(e: PointerEvent, frame: Frame): Point {
+        const { x, y } = this.view.getLocalCoordsFromEvent(e);
+        return this.view.screenToFrame(frame, x, y);
+    }
+
+    private isNearOnScreen(frame: Frame, p: Point, e: PointerEvent): boolean {
+        const [sx, sy] = this.view.frameToScreen(frame, p);
+        const { x, y } = this.view.getLocalCoordsFromEvent(e);
+        return Math.hypot(sx - x, sy - y) <= HANDLE_PX;
+    }
+}
@@ -3,6 +3,8 @@
 import { CanvasView } from "../CanvasView";
 import { CanvasTool, getQuadItem, TextCardProperties } from "../types";
 import { blockDrawingEvent } from "./DrawTool";
+import { deepRescale, deepToWorld, toAnchor } from "../deepCoords";
+import { emptyDoc } from "../../Notecard/richText";
 
 export class TextCardTool implements CanvasTool {
     private view: CanvasView;
@@ -20,28 +22,33 @@ export class TextCardTool implements CanvasTool {
         }
 
         const { x: sx, y: sy } = this.view.getLocalCoordsFromEvent(e);
-        const { x, y } = this.view.screenToWorld(sx, sy);
 
         // convert 508 × 304 CSS‑px to world units
         const z: number = this.view.getZoom();
         const w = 508 / z;
         const h = 304 / z;
 
+        // Anchored at its top-left corner, on the grid of the current zoom
+        const anchor = deepRescale(this.view.screenToDeep(sx - 508 / 2, sy - 304 / 2), this.view.getCameraFrame().exp);
+        const { x, y } = deepToWorld(anchor);
+
         const rect = getQuadItem<TextCardProperties>({
             id: crypto.randomUUID(),
-            x: x - w / 2,
-            y: y - h / 2,
+            x,
+            y,
             width: w,
             height: h,
+            anchor: toAnchor(anchor),
             data: {
                 type: "text-card",
                 zoom: this.view.getZoomObj(),
                 title: "New card",
+                doc: emptyDoc(),
                 htmlString: "",
             },
         });
 
-        this.view.model.addTextCard(rect);
+        this.view.model.addTextCard(rect).catch((err) => console.error("TextCardTool: saving the card failed", err));
     };
 
     pointerMove() {} // no‑op
@@ -0,0 +1,60 @@
+// canvas/canvasTools/WormholeTool.ts
+
+import { CanvasView } from "../CanvasView";
+import { CanvasTool, getQuadItem, WormholeCardProperties } from "../types";
+import { appStore } from "../../appState";
+import { blockDrawingEvent } from "./DrawTool";
+import { deepRescale, deepToWorld, toAnchor } from "../deepCoords";
+
+/** On-screen diameter of a new portal, in CSS px. */
+const WORMHOLE_PX = 120;
+
+/**
+ * Two clicks make a wormhole: the first captures the current view as the destination,
+ * then after navigating elsewhere the second places the portal that leads back there.
+ */
+export class WormholeTool implements CanvasTool {
+    private view: CanvasView;
+
+    constructor(view: CanvasView) {
+        this.view = view;
+    }
+
+    pointerDown = (e: PointerEvent) => {
+        if (this.view.drawState.frozen || e.button !== 0) return;
+        if (blockDrawingEvent(e.target as HTMLElement, true)) return;
+
+        const target = appStore.getState().wormholeTarget;
+        if (!target) {
+            appStore.setState({ wormholeTarget: this.view.getCameraTarget() });
+            return;
+        }
+
+        const { x: sx, y: sy } = this.view.getLocalCoordsFromEvent(e);
+        const size = WORMHOLE_PX / this.view.getZoom();
+        // Anchored at its top-left corner, on the grid of the current zoom
+        const anchor = deepRescale(this.view.screenToDeep(sx - WORMHOLE_PX / 2, sy - WORMHOLE_PX / 2), this.view.getCameraFrame().exp);
+        const { x, y } = deepToWorld(anchor);
+
+        const rect = getQuadItem<WormholeCardProperties>({
+            id: crypto.randomUUID(),
+            x,
+            y,
+            width: size,
+            height: size,
+            anchor: toAnchor(anchor),
+            data: {
+                type: "wormhole-card",
+                title: "Wormhole",
+                zoom: this.view.getZoomObj(),
+                targetPosition: target,
+            },
+        });
+
+        this.view.model.addWormhole(rect).catch((err) => console.error("WormholeTool: saving the wormhole failed", err));
+        appStore.setState({ wormholeTarget: null });
+    };
+
+    pointerMove() {} // no‑op
+    pointerUp() {} // no‑op
+}
@@ -3,13 +3,29 @@ import { CanvasView } from "../CanvasView";
 import { EmptyTool } from "./EmptyTool";
 import { DrawTool } from "./DrawTool";
 import { TextCardTool } from "./TextCardTool";
+import { EraseTool } from "./EraseTool";
+import { SelectTool } from "./SelectTool";
+import { WormholeTool } from "./WormholeTool";
+import { PanTool } from "./PanTool";
+import { ConnectorTool } from "./ConnectorTool";
 
 export const getCanvasTool = (view: CanvasView, tool: ActiveTool) => {
     if (view.options.mainCanvas) {
+        view.canvasTool.deactivate?.();
         if (tool === "draw") {
             view.canvasTool = new DrawTool(view);
         } else if (tool === "notecard") {
             view.canvasTool = new TextCardTool(view);
+        } else if (tool === "erase") {
+            view.canvasTool = new EraseTool(view);
+        } else if (tool === "select") {
+            view.canvasTool = new SelectTool(view);
+        } else if (tool === "wormhole") {
+            view.canvasTool = new WormholeTool(view);
+        } else if (tool === "pan") {
+            view.canvasTool = new PanTool(view);
+        } else if (tool === "connector") {
+            view.canvasTool = new ConnectorTool(view);
         } else {
             // For now we default to draw tool
             view.canvasTool = new DrawTool(view);
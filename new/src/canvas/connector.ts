@@ -0,0 +1,119 @@
+// canvas/connector.ts
+//
+// Routing and drawing of connectors. A connector leaves the edge of one item's bbox towards the
+// other and arrives at the other's edge, as a cubic curve that starts and ends perpendicular to the
+// sides it touches. The route is computed from the endpoints' current bboxes, exactly in deep
+// coordinates, so it follows them wherever they move; the model only stores the bbox around it.
+
+import { Graphics } from "pixi.js";
+import { convertBBox, convertPoint, DeepPoint, deepRescale, fromFrame, Frame, itemFrame, itemLocalBBox } from "./deepCoords";
+import { polylineDistance } from "./geometry";
+import { BBox, ConnectorProperties, Point, QuadItem } from "./types";
+
+/** Arrowhead length and half-width, in stroke widths. */
+const ARROW_LENGTH = 5;
+const ARROW_HALF_WIDTH = 2.5;
+/** Segments a curve is flattened into for hit tests. */
+const HIT_SEGMENTS = 24;
+
+/** A connector's curve: start, two control points, end, in units of 2^-exp relative to `origin`. */
+export type ConnectorRoute = { origin: DeepPoint; exp: number; pts: [Point, Point, Point, Point] };
+
+/** Where the ray from the center of `box` towards `p` leaves it, and the outward normal of that side. */
+function exitPoint(box: BBox, p: Point): { at: Point; normal: Point } {
+    const cx = box.x + box.width / 2;
+    const cy = box.y + box.height / 2;
+    const dx = p[0] - cx;
+    const dy = p[1] - cy;
+    if (dx === 0 && dy === 0) return { at: [cx, cy], normal: [1, 0] };
+    // Scale to reach the nearer of the vertical and horizontal sides
+    const tx = dx === 0 ? Infinity : box.width / 2 / Math.abs(dx);
+    const ty = dy === 0 ? Infinity : box.height / 2 / Math.abs(dy);
+    const t = Math.min(tx, ty);
+    return { at: [cx + dx * t, cy + dy * t], normal: tx < ty ? [Math.sign(dx), 0] : [0, Math.sign(dy)] };
+}
+
+/**
+ * The curve between two items, in units of 2^-exp relative to the top-left corner of its bbox
+ * (arrowheads and line width included), which is the connector's anchor.
+ */
+export function routeConnector(data: ConnectorProperties["data"], exp: number, from: QuadItem, to: QuadItem): ConnectorRoute {
+    const ref: Frame = { origin: deepRescale(itemFrame(from).origin, exp), exp };
+    const a = convertBBox(itemFrame(from), ref, itemLocalBBox(from));
+    const b = convertBBox(itemFrame(to), ref, itemLocalBBox(to));
+    const start = exitPoint(a, [b.x + b.width / 2, b.y + b.height / 2]);
+    const end = exitPoint(b, [a.x + a.width / 2, a.y + a.height / 2]);
+    const reach = Math.hypot(end.at[0] - start.at[0], end.at[1] - start.at[1]) / 3;
+    const pts: Point[] = [
+        start.at,
+        [start.at[0] + start.normal[0] * reach, start.at[1] + start.normal[1] * reach],
+        [end.at[0] + end.normal[0] * reach, end.at[1] + end.normal[1] * reach],
+        end.at,
+    ];
+
+    // A cubic stays inside the hull of its points; arrowheads reach a little further
+    const margin = data.stroke.width * ARROW_LENGTH;
+    const minX = Math.min(...pts.map((p) => p[0])) - margin;
+    const minY = Math.min(...pts.map((p) => p[1])) - margin;
+    const origin = deepRescale(fromFrame(ref, [minX, minY]), exp);
+    const [ox, oy] = convertPoint(ref, { origin, exp }, [0, 0]);
+    return { origin, exp, pts: pts.map(([x, y]) => [x + ox, y + oy]) as ConnectorRoute["pts"] };
+}
+
+/** The local bbox of a route, from its anchor. */
+export function routeBBox(route: ConnectorRoute, width: number): BBox {
+    const margin = width * ARROW_LENGTH;
+    const maxX = Math.max(...route.pts.map((p) => p[0]));
+    const maxY = Math.max(...route.pts.map((p) => p[1]));
+    return { x: 0, y: 0, width: maxX + margin, height: maxY + margin };
+}
+
+function bezier([p0, p1, p2, p3]: ConnectorRoute["pts"], t: number): Point {
+    const u = 1 - t;
+    const a = u * u * u;
+    const b = 3 * u * u * t;
+    const c = 3 * u * t * t;
+    const d = t * t * t;
+    return [a * p0[0] + b * p1[0] + c * p2[0] + d * p3[0], a * p0[1] + b * p1[1] + c * p2[1] + d * p3[1]];
+}
+
+/** The route flattened into a polyline. */
+export function routePolyline(route: ConnectorRoute, segments = HIT_SEGMENTS): Point[] {
+    return Array.from({ length: segments + 1 }, (_, i) => bezier(route.pts, i / segments));
+}
+
+/** The middle of the curve, where its label goes. */
+export const routeMidpoint = (route: ConnectorRoute): Point => bezier(route.pts, 0.5);
+
+/** Distance from the segment a–b (in the route's frame) to the curve. */
+export const routeDistance = (route: ConnectorRoute, a: Point, b: Point) => polylineDistance(routePolyline(route), a, b);
+
+/** The triangle of an arrowhead with its tip at `tip`, pointing away from `from`. */
+export function arrowHead(tip: Point, from: Point, width: number): Point[] {
+    const dx = tip[0] - from[0];
+    const dy = tip[1] - from[1];
+    const len = Math.hypot(dx, dy) || 1;
+    const [ux, uy] = [dx / len, dy / len];
+    const base: Point = [tip[0] - ux * width * ARROW_LENGTH, tip[1] - uy * width * ARROW_LENGTH];
+    const w = width * ARROW_HALF_WIDTH;
+    return [tip, [base[0] - uy * w, base[1] + ux * w], [base[0] + uy * w, base[1] - ux * w]];
+}
+
+/**
+ * Draws a connector's curve and arrowheads in the units of its route, which `g` is placed at.
+ * Only redrawn when the route or the connector's style changes.
+ */
+export function drawConnector(g: Graphics & { lastRoute?: string }, data: ConnectorProperties["data"], route: ConnectorRoute): void {
+    const key = `${route.pts.flat().join()}|${data.stroke.width}|${data.stroke.color}|${data.arrows.start}|${data.arrows.end}`;
+    if (g.lastRoute === key) return;
+    const [p0, p1, p2, p3] = route.pts;
+    const { width, color } = data.stroke;
+
+    g.clear();
+    g.moveTo(...p0)
+        .bezierCurveTo(...p1, ...p2, ...p3)
+        .stroke({ width, color });
+    if (data.arrows.end) g.poly(arrowHead(p3, p2, width).flat()).fill({ color });
+    if (data.arrows.start) g.poly(arrowHead(p0, p1, width).flat()).fill({ color });
+    g.lastRoute = key;
+}
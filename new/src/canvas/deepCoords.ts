@@ -0,0 +1,256 @@
+// canvas/deepCoords.ts
+//
+// Arbitrary-depth coordinates. A plain float world coordinate runs out of bits a few dozen
+// powers of two below where it was created, so positions that matter at depth are kept as
+// integers on a power-of-two grid (bigint), and everything else is a small float offset
+// relative to one of those grid points.
+
+import type { BBox, CameraTarget, Point, QuadItemProperties, StrokeData } from "./types";
+import { maxStrokeRadius } from "./strokeOutline";
+
+/** A world position (x · 2^-exp, y · 2^-exp), exact at any depth. */
+export type DeepPoint = { x: bigint; y: bigint; exp: number };
+
+/** DeepPoint as stored in Dexie / JSON, where bigint is not available. */
+export type Anchor = { x: string; y: string; exp: number };
+
+/**
+ * A local coordinate system: coordinates are in units of 2^-exp world units, relative to origin.
+ * Every item has one (its anchor, in the units of the zoom it was created at), and so does the camera.
+ */
+export type Frame = { origin: DeepPoint; exp: number };
+
+/** Grid bits kept below one screen pixel for camera and navigation positions. */
+export const SUBPIXEL_BITS = 24;
+
+export const toAnchor = (p: DeepPoint): Anchor => ({ x: p.x.toString(), y: p.y.toString(), exp: p.exp });
+
+// Anchors are parsed once and reused; the render loop reads them every frame
+const parsedAnchors = new WeakMap<Anchor, DeepPoint>();
+
+export function fromAnchor(a: Anchor): DeepPoint {
+    let p = parsedAnchors.get(a);
+    if (!p) {
+        p = { x: BigInt(a.x), y: BigInt(a.y), exp: a.exp };
+        parsedAnchors.set(a, p);
+    }
+    return p;
+}
+
+const shift = (v: bigint, bits: number): bigint => (bits >= 0 ? v << BigInt(bits) : roundShiftRight(v, -bits));
+
+/** v / 2^bits rounded to nearest. */
+const roundShiftRight = (v: bigint, bits: number): bigint => {
+    const b = BigInt(bits);
+    return (v + (1n << (b - 1n))) >> b;
+};
+
+const toBig = (v: number): bigint => {
+    if (!Number.isFinite(v)) throw new RangeError(`deepCoords: cannot place non-finite offset ${v}`);
+    return BigInt(Math.round(v));
+};
+
+/** The same point on the grid of 2^-exp (rounded when the grid is coarser). */
+export function deepRescale(p: DeepPoint, exp: number): DeepPoint {
+    if (exp === p.exp) return p;
+    return { x: shift(p.x, exp - p.exp), y: shift(p.y, exp - p.exp), exp };
+}
+
+/** (a − b) in units of 2^-unitExp. Exact until the result itself is converted to a float. */
+export function deepDiff(a: DeepPoint, b: DeepPoint, unitExp: number): { x: number; y: number } {
+    const e = Math.max(a.exp, b.exp);
+    const dx = shift(a.x, e - a.exp) - shift(b.x, e - b.exp);
+    const dy = shift(a.y, e - a.exp) - shift(b.y, e - b.exp);
+    const k = Math.pow(2, unitExp - e);
+    return { x: Number(dx) * k, y: Number(dy) * k };
+}
+
+/** a + b, exact, on the finer of the two grids. Here b is a displacement rather than a position. */
+export function deepAdd(a: DeepPoint, b: DeepPoint): DeepPoint {
+    const e = Math.max(a.exp, b.exp);
+    return { x: shift(a.x, e - a.exp) + shift(b.x, e - b.exp), y: shift(a.y, e - a.exp) + shift(b.y, e - b.exp), exp: e };
+}
+
+/** The displacement a − b, exact, on the finer of the two grids. */
+export function deepSub(a: DeepPoint, b: DeepPoint): DeepPoint {
+    return deepAdd(a, { x: -b.x, y: -b.y, exp: b.exp });
+}
+
+/** p moved by (dx, dy) units of 2^-unitExp, kept on p's grid. */
+export function deepOffset(p: DeepPoint, dx: number, dy: number, unitExp: number): DeepPoint {
+    const k = Math.pow(2, p.exp - unitExp);
+    return { x: p.x + toBig(dx * k), y: p.y + toBig(dy * k), exp: p.exp };
+}
+
+/**
+ * The point `rest` of the way from `to` back towards `from`, on the finer of the two grids.
+ * The difference is scaled as a bigint, so a dive across hundreds of powers of two neither overflows
+ * at the start nor loses the destination at the end.
+ */
+export function deepTowards(from: DeepPoint, to: DeepPoint, rest: number): DeepPoint {
+    const e = Math.max(from.exp, to.exp);
+    const tx = shift(to.x, e - to.exp);
+    const ty = shift(to.y, e - to.exp);
+    if (!(rest > 1e-300)) return { x: tx, y: ty, exp: e };
+    const dx = shift(from.x, e - from.exp) - tx;
+    const dy = shift(from.y, e - from.exp) - ty;
+    // rest = m · 2^(p − 52), m a 53-bit integer
+    const p = Math.floor(Math.log2(rest));
+    const m = BigInt(Math.round(rest * Math.pow(2, 52 - p)));
+    return { x: tx + shift(dx * m, p - 52), y: ty + shift(dy * m, p - 52), exp: e };
+}
+
+/** Grid point nearest to a float world position. */
+export function deepFromWorld(x: number, y: number, exp: number): DeepPoint {
+    const k = Math.pow(2, exp);
+    return { x: toBig(x * k), y: toBig(y * k), exp };
+}
+
+/** Float world position; loses precision at depth, so only for coarse work like quadtree queries. */
+export function deepToWorld(p: DeepPoint): { x: number; y: number } {
+    const k = Math.pow(2, -p.exp);
+    return { x: Number(p.x) * k, y: Number(p.y) * k };
+}
+
+/** A point given in frame `from`, expressed in frame `to`. */
+export function convertPoint(from: Frame, to: Frame, p: Point): Point {
+    const o = deepDiff(from.origin, to.origin, to.exp);
+    const k = Math.pow(2, to.exp - from.exp);
+    return [o.x + p[0] * k, o.y + p[1] * k];
+}
+
+/** The deep position of a point given in a frame. */
+export function fromFrame(frame: Frame, p: Point): DeepPoint {
+    return deepOffset(frame.origin, p[0], p[1], frame.exp);
+}
+
+/** Coarse world bbox of a box given in a frame, for the quadtree. */
+export function frameBBoxToWorld(frame: Frame, box: BBox): BBox {
+    const o = deepToWorld(frame.origin);
+    const k = Math.pow(2, -frame.exp);
+    return { x: o.x + box.x * k, y: o.y + box.y * k, width: box.width * k, height: box.height * k };
+}
+
+/** A box given in frame `from`, expressed in frame `to`. */
+export function convertBBox(from: Frame, to: Frame, box: BBox): BBox {
+    const [x, y] = convertPoint(from, to, [box.x, box.y]);
+    const k = Math.pow(2, to.exp - from.exp);
+    return { x, y, width: box.width * k, height: box.height * k };
+}
+
+// ─── Items ────────────────────────────────────────────────────────────────────
+
+const LEGACY_ANCHOR: DeepPoint = { x: 0n, y: 0n, exp: 0 };
+
+/** The frame an item's local geometry is in. Items without an anchor use plain world coordinates. */
+export function itemFrame(item: { anchor?: Anchor }): Frame {
+    const origin = item.anchor ? fromAnchor(item.anchor) : LEGACY_ANCHOR;
+    return { origin, exp: origin.exp };
+}
+
+/**
+ * Item bbox in its own frame. Strokes: their points padded by their widest half-width.
+ * Cards and wormholes: anchored at their top-left corner.
+ */
+export function itemLocalBBox(item: QuadItemProperties): BBox {
+    const { exp } = itemFrame(item);
+    if (item.data.type === "stroke-rect") {
+        const { pts } = item.data;
+        const m = maxStrokeRadius(item.data);
+        let minX = Infinity,
+            minY = Infinity,
+            maxX = -Infinity,
+            maxY = -Infinity;
+        for (const [x, y] of pts) {
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+        return { x: minX - m, y: minY - m, width: maxX - minX + m * 2, height: maxY - minY + m * 2 };
+    }
+    if (!item.anchor) return { x: item.x, y: item.y, width: item.width, height: item.height };
+    const k = Math.pow(2, exp);
+    return { x: 0, y: 0, width: item.width * k, height: item.height * k };
+}
+
+/**
+ * Gives an item saved before anchors existed an anchor near its geometry, rewriting
+ * absolute float coordinates into local ones. Items that already have an anchor are returned as is.
+ */
+export function anchorLegacyItem<P extends QuadItemProperties>(props: P): P {
+    if (props.anchor) return props;
+
+    if (props.data.type === "stroke-rect") {
+        const data = props.data as StrokeData;
+        // One local unit ≈ half the stroke width, like a stroke drawn today at 2 px
+        const exp = Math.round(Math.log2(2 / (data.stroke.width || 1)));
+        const origin = deepFromWorld(data.pts[0][0], data.pts[0][1], exp);
+        const o = deepToWorld(origin);
+        const k = Math.pow(2, exp);
+        const local: StrokeData = {
+            ...data,
+            pts: data.pts.map(([x, y]) => [(x - o.x) * k, (y - o.y) * k] as Point),
+            stroke: { ...data.stroke, width: data.stroke.width * k },
+        };
+        return { ...props, anchor: toAnchor(origin), data: local };
+    }
+
+    const exp = props.data.zoom.zoomExp;
+    return { ...props, anchor: toAnchor(deepFromWorld(props.x, props.y, exp)) };
+}
+
+/**
+ * Center of the union of the items' bboxes. Measured relative to one of their anchors in the coarsest
+ * units among them, so it stays exact for content at any depth.
+ */
+export function itemsCenter(items: QuadItemProperties[]): DeepPoint | null {
+    if (items.length === 0) return null;
+    const frames = items.map(itemFrame);
+    const unitExp = Math.min(...frames.map((f) => f.exp));
+    const ref = deepRescale(frames[0].origin, Math.max(...frames.map((f) => f.exp)));
+
+    let minX = Infinity,
+        minY = Infinity,
+        maxX = -Infinity,
+        maxY = -Infinity;
+    items.forEach((item, i) => {
+        const box = convertBBox(frames[i], { origin: ref, exp: unitExp }, itemLocalBBox(item));
+        minX = Math.min(minX, box.x);
+        minY = Math.min(minY, box.y);
+        maxX = Math.max(maxX, box.x + box.width);
+        maxY = Math.max(maxY, box.y + box.height);
+    });
+    return deepOffset(ref, (minX + maxX) / 2, (minY + maxY) / 2, unitExp);
+}
+
+/** A camera target moved by `d`, at the same zoom. */
+export function translateTarget(target: CameraTarget, d: DeepPoint): CameraTarget {
+    const w = deepToWorld(d);
+    return {
+        ...target,
+        x: target.x + w.x,
+        y: target.y + w.y,
+        ...(target.center && { center: toAnchor(deepAdd(fromAnchor(target.center), d)) }),
+    };
+}
+
+/**
+ * An anchored item moved by the displacement `d`. Its anchor stays on its own grid; for strokes, what that
+ * rounding cuts off goes into the points. The float bbox and a wormhole's target move along.
+ */
+export function translateItem<P extends QuadItemProperties>(props: P, d: DeepPoint): P {
+    const from = itemFrame(props);
+    const exact = deepAdd(from.origin, d);
+    const origin = deepRescale(exact, from.exp);
+    const moved = { ...props, anchor: toAnchor(origin) };
+
+    if (moved.data.type === "stroke-rect") {
+        const r = deepDiff(exact, origin, from.exp);
+        const data = moved.data as StrokeData;
+        moved.data = { ...data, pts: data.pts.map(([x, y]) => [x + r.x, y + r.y] as Point) };
+    } else if (moved.data.type === "wormhole-card") {
+        moved.data = { ...moved.data, targetPosition: translateTarget(moved.data.targetPosition, d) };
+    }
+    return { ...moved, ...frameBBoxToWorld({ origin, exp: from.exp }, itemLocalBBox(moved)) };
+}
@@ -2,6 +2,7 @@
 
 import { colorPallet, type BBox } from "./types";
 import { Container, Graphics, Renderer } from "pixi.js";
+import { DeepPoint, deepDiff, deepFromWorld, deepOffset, deepRescale, deepToWorld, Frame, SUBPIXEL_BITS } from "./deepCoords";
 
 /**
  * Public context you keep and pass to update.
@@ -30,15 +31,13 @@ export interface FractalConfig {
     segments: number; // base polygon segment count
 }
 
-/** Internal blob node */
-interface BlobNode {
+/** A blob; its id is its parent's plus its index among the parent's children, from `L0_<root>`. */
+export interface BlobNode {
     id: string;
     level: number;
     parentId?: string;
-    cx: number;
-    cy: number;
-    radius: number; // base radius before boundary jitter
-    bbox: BBox; // simple axis-aligned, center±radius
+    center: DeepPoint; // exact, on a grid fine enough for the node's own size
+    radius: number; // world units, base radius before boundary jitter
     generatedChildren: boolean;
     children: BlobNode[];
     color: number;
@@ -49,6 +48,10 @@ interface BlobNode {
 /* -------------------------------------------------- */
 
 const MAX_PLACEMENT_ATTEMPTS = 50;
+
+/** Grid exp that places a blob of radius r to well below a pixel however far it is zoomed into. */
+const centerExp = (r: number) => Math.ceil(-Math.log2(r)) + SUBPIXEL_BITS;
+
 /**
  * Create the fractal landmarks context. Place `ctx.container` inside your world container at z=0.
  */
@@ -101,7 +104,8 @@ export function createFractalLandmarks(seed = 1): FractalLandmarksContext {
             let isColliding = false;
             for (const otherRoot of roots) {
                 const requiredDist = (r + otherRoot.radius) * fullConfig.blobSpacing;
-                if (distance(cx, cy, otherRoot.cx, otherRoot.cy) < requiredDist) {
+                const other = deepToWorld(otherRoot.center);
+                if (distance(cx, cy, other.x, other.y) < requiredDist) {
                     isColliding = true;
                     break; // Collision found, break this inner loop and retry
                 }
@@ -112,10 +116,8 @@ export function createFractalLandmarks(seed = 1): FractalLandmarksContext {
                 node = {
                     id: `L0_${i}`,
                     level: 0,
-                    cx,
-                    cy,
+                    center: deepFromWorld(cx, cy, centerExp(r)),
                     radius: r,
-                    bbox: { x: cx - r, y: cy - r, width: r * 2, height: r * 2 },
                     generatedChildren: false,
                     children: [],
                     color: COLOR_EVEN,
@@ -147,13 +149,15 @@ export function createFractalLandmarks(seed = 1): FractalLandmarksContext {
 /**
  * Call every frame (before drawing strokes).
  * @param ctx context from createFractalLandmarks
- * @param viewRect current visible world rectangle
+ * @param frame the frame `ctx.container`'s parent is drawn in (the camera frame)
+ * @param viewRect current visible rectangle, in `frame` coordinates
  * @param worldZoom effective world→screen scale (world units * worldZoom = pixels)
  */
-export function updateFractalLandmarks(ctx: FractalLandmarksContext, viewRect: BBox, worldZoom: number) {
+export function updateFractalLandmarks(ctx: FractalLandmarksContext, frame: Frame, viewRect: BBox, worldZoom: number) {
     const { container, roots, config, nodes, gfx } = ctx;
 
     const minWorldRadius = config.minPixelRadius / worldZoom;
+    const unitsPerWorld = Math.pow(2, frame.exp);
 
     const visibleIds = new Set<string>();
 
@@ -169,13 +173,19 @@ export function updateFractalLandmarks(ctx: FractalLandmarksContext, viewRect: B
 
     /* -------- traversal ---------- */
     function visitNode(node: BlobNode, ctx: FractalLandmarksContext) {
-        if (!intersects(node.bbox, viewRect)) return;
+        // Placed relative to the frame origin, so blobs stay put however deep the camera is
+        const c = deepDiff(node.center, frame.origin, frame.exp);
+        const r = node.radius * unitsPerWorld;
+        if (!intersects({ x: c.x - r, y: c.y - r, width: r * 2, height: r * 2 }, viewRect)) return;
         if (node.radius < minWorldRadius) return;
 
         visibleIds.add(node.id);
 
         // Ensure graphics exists & up to date
-        ensureGraphics(node, ctx);
+        const g = ensureGraphics(node, ctx);
+        g.position.set(c.x, c.y);
+        g.scale.set(r);
+        g.visible = Number.isFinite(r) && Number.isFinite(c.x) && Number.isFinite(c.y);
 
         // Generate children if allowed & not yet generated
         if (node.level < config.maxDepth && !node.generatedChildren && node.radius * config.childRadiusFrac[0] > minWorldRadius) {
@@ -189,6 +199,47 @@ export function updateFractalLandmarks(ctx: FractalLandmarksContext, viewRect: B
     }
 }
 
+/** Blob edges are jittered between 0.8 and 0.95 of the radius; this disc is always inside. */
+const INNER_RADIUS_FRAC = 0.79;
+
+/**
+ * The blobs around a view, outermost first: the root nearest its center, then each child whose
+ * inner disc holds the whole view. Children only exist once drawn, so this is as deep as the view
+ * has rendered, which is as deep as it can be seen.
+ * @param center Exact world point at the view's center.
+ * @param halfDiagonal Half the view's diagonal, in world units.
+ */
+export function landmarkPath(ctx: FractalLandmarksContext, center: DeepPoint, halfDiagonal: number): BlobNode[] {
+    // Distances in units near the blob's own size, so they are exact enough at any depth
+    const offset = (node: BlobNode) => {
+        const unitExp = -Math.round(Math.log2(node.radius));
+        const d = deepDiff(center, node.center, unitExp);
+        return { dist: Math.hypot(d.x, d.y), k: Math.pow(2, unitExp) };
+    };
+    const contains = (node: BlobNode) => {
+        const { dist, k } = offset(node);
+        return dist + halfDiagonal * k <= node.radius * k * INNER_RADIUS_FRAC;
+    };
+
+    let node: BlobNode | undefined = minBy(ctx.roots, (root) => offset(root).dist / offset(root).k);
+    const path: BlobNode[] = [];
+    while (node) {
+        path.push(node);
+        node = node.children.find(contains);
+    }
+    return path;
+}
+
+function minBy<T>(items: T[], key: (item: T) => number): T | undefined {
+    let best: T | undefined;
+    let bestKey = Infinity;
+    for (const item of items) {
+        const k = key(item);
+        if (k < bestKey) [best, bestKey] = [item, k];
+    }
+    return best;
+}
+
 /* -------------------------------------------------- */
 /* Generation helpers                                  */
 /* -------------------------------------------------- */
@@ -219,11 +270,11 @@ function generateChildren(parent: BlobNode, ctx: FractalLandmarksContext) {
         const theta = rng() * Math.PI * 2;
         const maxCenterDist = Math.max(0, parent.radius - r);
         const dist = rng() * maxCenterDist * config.childPlacementScale;
-        const cx = parent.cx + Math.cos(theta) * dist;
-        const cy = parent.cy + Math.sin(theta) * dist;
+        const dx = Math.cos(theta) * dist;
+        const dy = Math.sin(theta) * dist;
 
         // simple containment (circle inside circle)
-        if (distance(cx, cy, parent.cx, parent.cy) + r > parent.radius) continue;
+        if (distance(dx, dy, 0, 0) + r > parent.radius) continue;
 
         const area = Math.PI * r * r;
         if (usedArea + area > maxArea) break;
@@ -234,15 +285,8 @@ function generateChildren(parent: BlobNode, ctx: FractalLandmarksContext) {
             id,
             level,
             parentId: parent.id,
-            cx,
-            cy,
+            center: deepOffset(deepRescale(parent.center, centerExp(r)), dx, dy, 0),
             radius: r,
-            bbox: {
-                x: cx - r,
-                y: cy - r,
-                width: r * 2,
-                height: r * 2,
-            },
             generatedChildren: false,
             children: [],
             color: level % 2 === 0 ? COLOR_EVEN : COLOR_ODD,
@@ -272,7 +316,8 @@ function makeNodePolygon(rng: () => number, radius: number, segments: number) {
     return pts;
 }
 
-function ensureGraphics(node: BlobNode, ctx: FractalLandmarksContext) {
+/** Graphics for a node, drawn once at unit radius; the caller positions and scales it. */
+function ensureGraphics(node: BlobNode, ctx: FractalLandmarksContext): Graphics {
     const { container, gfx, config } = ctx;
 
     let g = gfx.get(node.id);
@@ -284,15 +329,13 @@ function ensureGraphics(node: BlobNode, ctx: FractalLandmarksContext) {
     // Draw only if first time or we could adapt smoothing per zoom (optional).
     if ((g as any)._drawn) {
         g.visible = true;
-        return;
+        return g;
     }
 
     g.clear();
-    g.x = node.cx;
-    g.y = node.cy;
     // deterministic boundary jitter from node id
     const rng = makeStringRng(node.id);
-    const pts = makeNodePolygon(rng, node.radius, config.segments);
+    const pts = makeNodePolygon(rng, 1, config.segments);
 
     g.moveTo(pts[0][0], pts[0][1]);
     for (let i = 1; i < pts.length; i++) g.lineTo(pts[i][0], pts[i][1]);
@@ -0,0 +1,96 @@
+// canvas/geometry.ts
+import { BBox, Point } from "./types";
+
+/** Shortest distance from point p to the segment a–b. */
+export function distToSegment(p: Point, a: Point, b: Point): number {
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const lenSq = dx * dx + dy * dy;
+    let t = lenSq === 0 ? 0 : ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lenSq;
+    t = Math.max(0, Math.min(1, t));
+    return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+/** Shortest distance between the segments a–b and c–d. */
+export function segmentDistance(a: Point, b: Point, c: Point, d: Point): number {
+    if (segmentsIntersect(a, b, c, d)) return 0;
+    return Math.min(distToSegment(a, c, d), distToSegment(b, c, d), distToSegment(c, a, b), distToSegment(d, a, b));
+}
+
+export function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+    const cross = (o: Point, p: Point, q: Point) => (p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0]);
+    const d1 = cross(c, d, a);
+    const d2 = cross(c, d, b);
+    const d3 = cross(a, b, c);
+    const d4 = cross(a, b, d);
+    return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+/** Shortest distance between a polyline and the segment a–b. */
+export function polylineDistance(pts: Point[], a: Point, b: Point): number {
+    if (pts.length === 1) return distToSegment(pts[0], a, b);
+    let best = Infinity;
+    for (let i = 1; i < pts.length; i++) {
+        best = Math.min(best, segmentDistance(pts[i - 1], pts[i], a, b));
+        if (best === 0) break;
+    }
+    return best;
+}
+
+/** Axis-aligned box around a set of points, grown by `margin` on every side. */
+export function pointsBBox(pts: Point[], margin = 0): BBox {
+    let minX = Infinity,
+        minY = Infinity,
+        maxX = -Infinity,
+        maxY = -Infinity;
+    for (const [x, y] of pts) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+    }
+    return { x: minX - margin, y: minY - margin, width: maxX - minX + margin * 2, height: maxY - minY + margin * 2 };
+}
+
+export function bboxIntersects(a: BBox, b: BBox): boolean {
+    return !(a.x + a.width < b.x || a.x > b.x + b.width || a.y + a.height < b.y || a.y > b.y + b.height);
+}
+
+/** Even-odd test of a point against a closed polygon. */
+export function pointInPolygon(p: Point, poly: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+        const [xi, yi] = poly[i];
+        const [xj, yj] = poly[j];
+        if (yi > p[1] !== yj > p[1] && p[0] < ((xj - xi) * (p[1] - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+}
+
+/** Smallest box containing all the given boxes. */
+export function unionBBox(boxes: BBox[]): BBox | null {
+    if (boxes.length === 0) return null;
+    let minX = Infinity,
+        minY = Infinity,
+        maxX = -Infinity,
+        maxY = -Infinity;
+    for (const b of boxes) {
+        minX = Math.min(minX, b.x);
+        minY = Math.min(minY, b.y);
+        maxX = Math.max(maxX, b.x + b.width);
+        maxY = Math.max(maxY, b.y + b.height);
+    }
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/** Uniform scale about `pivot`, then a translation by (dx, dy). */
+export type ItemTransform = { pivot: Point; scale: number; dx: number; dy: number };
+
+export function transformPoint(p: Point, t: ItemTransform): Point {
+    return [t.pivot[0] + (p[0] - t.pivot[0]) * t.scale + t.dx, t.pivot[1] + (p[1] - t.pivot[1]) * t.scale + t.dy];
+}
+
+export function transformBBox(b: BBox, t: ItemTransform): BBox {
+    const [x, y] = transformPoint([b.x, b.y], t);
+    return { x, y, width: b.width * t.scale, height: b.height * t.scale };
+}
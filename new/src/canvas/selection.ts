@@ -0,0 +1,86 @@
+// canvas/selection.ts
+import { Graphics } from "pixi.js";
+import type { EditableItem } from "../DrawingData/DrawingModel";
+import { BBox, colorPallet, isStroke, isTextCard, isWormholeCard, Point, QuadItem } from "./types";
+import { ItemTransform, pointInPolygon, transformBBox, unionBBox } from "./geometry";
+import { convertBBox, convertPoint, Frame, itemFrame, itemLocalBBox } from "./deepCoords";
+
+/** Size of the corner scale handles, in screen pixels. */
+export const HANDLE_PX = 8;
+
+export type SelectionState = {
+    /** Selected strokes and cards. */
+    items: EditableItem[];
+    ids: Set<string>;
+    /** The frame the selection bbox and preview are expressed in: the camera's when it was made. */
+    frame: Frame;
+    /** A transform being dragged but not yet committed to the model. */
+    preview: ItemTransform | null;
+};
+
+/** An in-progress lasso, in the camera frame at the time it was started. */
+export type LassoState = { frame: Frame; pts: Point[] };
+
+export const isEditableItem = (i: QuadItem): i is EditableItem => isStroke(i) || isTextCard(i) || isWormholeCard(i);
+
+/**
+ * Picks the items fully enclosed by a lasso polygon given in `frame`.
+ * Strokes need every point inside, cards and wormholes every corner of their bbox.
+ */
+export function selectInPolygon(candidates: QuadItem[], poly: Point[], frame: Frame): EditableItem[] {
+    if (poly.length < 3) return [];
+    return candidates.filter(isEditableItem).filter((item) => {
+        const from = itemFrame(item);
+        if (isStroke(item)) return item.data.pts.every((p) => pointInPolygon(convertPoint(from, frame, p), poly));
+        return bboxCorners(convertBBox(from, frame, itemLocalBBox(item))).every((p) => pointInPolygon(p, poly));
+    });
+}
+
+export function createSelection(items: EditableItem[], frame: Frame): SelectionState | null {
+    if (items.length === 0) return null;
+    return { items, ids: new Set(items.map((i) => i.id)), frame, preview: null };
+}
+
+/** Bbox of the selection in its frame, with any preview transform applied. */
+export function getSelectionBBox(sel: SelectionState): BBox | null {
+    const box = unionBBox(sel.items.map((i) => convertBBox(itemFrame(i), sel.frame, itemLocalBBox(i))));
+    if (!box) return null;
+    return sel.preview ? transformBBox(box, sel.preview) : box;
+}
+
+/** Corners of a bbox, clockwise from top-left. */
+export function bboxCorners(b: BBox): Point[] {
+    return [
+        [b.x, b.y],
+        [b.x + b.width, b.y],
+        [b.x + b.width, b.y + b.height],
+        [b.x, b.y + b.height],
+    ];
+}
+
+/**
+ * Redraws the selection frame, handles and the in-progress lasso.
+ * @param toScreen frame → screen-px mapping of the view the overlay sits on.
+ */
+export function drawSelectionOverlay(g: Graphics, sel: SelectionState | null, lasso: LassoState | null, toScreen: (frame: Frame, p: Point) => Point) {
+    g.clear();
+
+    if (lasso && lasso.pts.length > 1) {
+        const pts = lasso.pts.map((p) => toScreen(lasso.frame, p));
+        g.moveTo(...pts[0]);
+        for (let i = 1; i < pts.length; i++) g.lineTo(...pts[i]);
+        g.closePath();
+        g.fill({ color: colorPallet.squall, alpha: 0.15 });
+        g.stroke({ width: 1, color: colorPallet.seafoam });
+    }
+
+    const box = sel && getSelectionBBox(sel);
+    if (!box) return;
+    const corners = bboxCorners(box).map((p) => toScreen(sel.frame, p));
+    g.poly(corners.flat(), true).stroke({ width: 1, color: colorPallet.driftwood });
+    for (const [x, y] of corners) {
+        g.rect(x - HANDLE_PX / 2, y - HANDLE_PX / 2, HANDLE_PX, HANDLE_PX)
+            .fill({ color: 0xffffff })
+            .stroke({ width: 1, color: colorPallet.driftwood });
+    }
+}
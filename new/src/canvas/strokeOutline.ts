@@ -0,0 +1,111 @@
+// canvas/strokeOutline.ts
+import { Graphics } from "pixi.js";
+import { Point, StrokeData } from "./types";
+
+/** Width multiplier at zero and at full pressure; 0.5, what browsers report for a pressed mouse, gives the nominal width. */
+const MIN_PRESSURE_SCALE = 0.25;
+const MAX_PRESSURE_SCALE = 1.75;
+
+/** Turns sharper than this (radians) start a new outline piece, since earcut cannot fill a self-intersecting one. */
+const MAX_TURN = Math.PI / 3;
+
+/** Segments used for each round cap. */
+const CAP_SEGMENTS = 8;
+
+export const pressureScale = (p: number) => MIN_PRESSURE_SCALE + (MAX_PRESSURE_SCALE - MIN_PRESSURE_SCALE) * Math.min(Math.max(p, 0), 1);
+
+/** Half-width at each point, or null for strokes without pressure data. */
+export function strokeRadii(data: StrokeData): number[] | null {
+    if (!data.pressure) return null;
+    const r = data.stroke.width / 2;
+    return data.pts.map((_, i) => r * pressureScale(data.pressure![i] ?? 0.5));
+}
+
+/** The widest the stroke gets on either side of its centerline, for bboxes and hit tests. */
+export function maxStrokeRadius(data: StrokeData): number {
+    const radii = strokeRadii(data);
+    return radii ? Math.max(...radii) : data.stroke.width / 2;
+}
+
+/**
+ * Outline polygons of a variable-width polyline: one per run between sharp turns, each with round
+ * caps, plus a disc at every split so the pieces join smoothly.
+ */
+export function strokeOutline(pts: Point[], radii: number[]): { polygons: Point[][]; discs: [number, number, number][] } {
+    // Points closer together than a hundredth of their width only add noise to the normals
+    const p: Point[] = [];
+    const r: number[] = [];
+    for (let i = 0; i < pts.length; i++) {
+        const last = p[p.length - 1];
+        if (last && Math.hypot(pts[i][0] - last[0], pts[i][1] - last[1]) < radii[i] * 0.01) continue;
+        p.push(pts[i]);
+        r.push(radii[i]);
+    }
+
+    const polygons: Point[][] = [];
+    const discs: [number, number, number][] = [];
+    if (p.length === 1) {
+        discs.push([p[0][0], p[0][1], r[0]]);
+        return { polygons, discs };
+    }
+
+    let start = 0;
+    for (let i = 1; i < p.length; i++) {
+        const isLast = i === p.length - 1;
+        if (!isLast && turnAngle(p[i - 1], p[i], p[i + 1]) <= MAX_TURN) continue;
+        polygons.push(runOutline(p.slice(start, i + 1), r.slice(start, i + 1)));
+        if (!isLast) discs.push([p[i][0], p[i][1], r[i]]);
+        start = i;
+    }
+    return { polygons, discs };
+}
+
+/** Fills a pressure stroke's outline into `g`, in the stroke's own units. */
+export function drawPressureStroke(g: Graphics, data: StrokeData, radii: number[]): void {
+    const { polygons, discs } = strokeOutline(data.pts, radii);
+    for (const poly of polygons) g.poly(poly.flat(), true);
+    for (const [x, y, rr] of discs) g.circle(x, y, rr);
+    g.fill({ color: data.stroke.color });
+}
+
+function turnAngle(a: Point, b: Point, c: Point): number {
+    const a1 = Math.atan2(b[1] - a[1], b[0] - a[0]);
+    const a2 = Math.atan2(c[1] - b[1], c[0] - b[0]);
+    let d = Math.abs(a2 - a1);
+    if (d > Math.PI) d = 2 * Math.PI - d;
+    return d;
+}
+
+/** Left side forward, end cap, right side back, start cap. The run has no sharp turns. */
+function runOutline(p: Point[], r: number[]): Point[] {
+    const n = p.length;
+    const left: Point[] = [];
+    const right: Point[] = [];
+    for (let i = 0; i < n; i++) {
+        // Normal of the tangent, averaged over the neighbouring segments
+        const a = p[Math.max(i - 1, 0)];
+        const b = p[Math.min(i + 1, n - 1)];
+        const len = Math.hypot(b[0] - a[0], b[1] - a[1]) || 1;
+        const nx = -(b[1] - a[1]) / len;
+        const ny = (b[0] - a[0]) / len;
+        left.push([p[i][0] + nx * r[i], p[i][1] + ny * r[i]]);
+        right.push([p[i][0] - nx * r[i], p[i][1] - ny * r[i]]);
+    }
+
+    const outline: Point[] = [...left];
+    outline.push(...cap(p[n - 1], p[n - 2], r[n - 1]));
+    for (let i = n - 1; i >= 0; i--) outline.push(right[i]);
+    outline.push(...cap(p[0], p[1], r[0]));
+    return outline;
+}
+
+/** Half circle around `end`, bulging away from `prev`, from its left side to its right. */
+function cap(end: Point, prev: Point, r: number): Point[] {
+    const dir = Math.atan2(end[1] - prev[1], end[0] - prev[0]);
+    const pts: Point[] = [];
+    for (let k = 1; k < CAP_SEGMENTS; k++) {
+        const t = dir + Math.PI / 2 - (Math.PI * k) / CAP_SEGMENTS;
+        pts.push([end[0] + Math.cos(t) * r, end[1] + Math.sin(t) * r]);
+    }
+    return pts;
+}
@@ -0,0 +1,128 @@
+// canvas/strokePipeline.ts
+//
+// What happens to a stroke between the pen lifting and the model storing it, and how its stored
+// points are smoothed again for drawing.
+
+import { Point, StrokeData } from "./types";
+import { distToSegment } from "./geometry";
+
+export type StrokePipelineOptions = {
+    /** Max distance (screen px at the zoom it was drawn at) a dropped point may lie off the simplified line. */
+    simplifyTolerancePx: number;
+    /** Draw strokes through a Catmull-Rom spline of their points instead of straight segments. */
+    smoothing: boolean;
+};
+
+export const DEFAULT_STROKE_PIPELINE: StrokePipelineOptions = {
+    simplifyTolerancePx: 0.75,
+    smoothing: true,
+};
+
+/**
+ * Stored stroke points are rounded to 2^-POINT_GRID_BITS of a stroke unit, far under a pixel at the zoom
+ * they were drawn at. Points on that grid are stored exactly as small integers by the binary format.
+ */
+export const POINT_GRID_BITS = 8;
+
+const POINT_GRID = Math.pow(2, POINT_GRID_BITS);
+
+/** Points rounded to the storage grid. */
+export const quantizePoints = (pts: Point[]): Point[] => pts.map(([x, y]) => [Math.round(x * POINT_GRID) / POINT_GRID, Math.round(y * POINT_GRID) / POINT_GRID]);
+
+/** Running totals of the simplification, for the console and for tuning the tolerance. */
+export const strokePipelineStats = { strokes: 0, pointsIn: 0, pointsOut: 0 };
+
+/**
+ * Ramer–Douglas–Peucker: the indices of the points to keep so no dropped point is further than `tol`
+ * from the line between its kept neighbours. With `pressure`, a dropped point must also be within
+ * tolerance of the interpolated pressure, weighted by `pressureWeight` (units per full pressure).
+ */
+export function simplifyIndices(pts: Point[], tol: number, pressure?: number[], pressureWeight = 0): number[] {
+    const n = pts.length;
+    if (n <= 2) return pts.map((_, i) => i);
+
+    const keep = new Uint8Array(n);
+    keep[0] = keep[n - 1] = 1;
+    // Explicit stack: thousands of points would be a deep recursion
+    const stack: [number, number][] = [[0, n - 1]];
+    while (stack.length) {
+        const [first, last] = stack.pop()!;
+        let maxDist = 0;
+        let index = -1;
+        for (let i = first + 1; i < last; i++) {
+            let d = distToSegment(pts[i], pts[first], pts[last]);
+            if (pressure) {
+                const t = (i - first) / (last - first);
+                const expected = pressure[first] + (pressure[last] - pressure[first]) * t;
+                d = Math.max(d, Math.abs(pressure[i] - expected) * pressureWeight);
+            }
+            if (d > maxDist) {
+                maxDist = d;
+                index = i;
+            }
+        }
+        if (index !== -1 && maxDist > tol) {
+            keep[index] = 1;
+            stack.push([first, index], [index, last]);
+        }
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < n; i++) if (keep[i]) result.push(i);
+    return result;
+}
+
+/**
+ * Simplifies a finished stroke before it is stored.
+ * @param pxPerUnit Screen px per stroke unit when it was drawn, so the tolerance follows the zoom.
+ */
+export function simplifyStroke(data: StrokeData, pxPerUnit: number, options: StrokePipelineOptions = DEFAULT_STROKE_PIPELINE): StrokeData {
+    const tol = options.simplifyTolerancePx / pxPerUnit;
+    const { pts, pressure } = data;
+    const kept = simplifyIndices(pts, tol, pressure, data.stroke.width);
+
+    strokePipelineStats.strokes++;
+    strokePipelineStats.pointsIn += pts.length;
+    strokePipelineStats.pointsOut += kept.length;
+
+    return {
+        ...data,
+        pts: kept.map((i) => pts[i]),
+        ...(pressure && { pressure: kept.map((i) => pressure[i]) }),
+    };
+}
+
+/**
+ * Stroke data resampled along a Catmull-Rom spline through its points, for drawing only.
+ * Segments get more samples the longer they are relative to the stroke width.
+ */
+export function smoothStroke(data: StrokeData): StrokeData {
+    const { pts, pressure } = data;
+    if (pts.length < 3) return data;
+    // A sample every few stroke widths is enough for the curve to look round at any zoom
+    const step = Math.max(data.stroke.width * 4, Number.MIN_VALUE);
+
+    const out: Point[] = [pts[0]];
+    const outPressure: number[] = pressure ? [pressure[0]] : [];
+    for (let i = 0; i < pts.length - 1; i++) {
+        const p0 = pts[Math.max(i - 1, 0)];
+        const p1 = pts[i];
+        const p2 = pts[i + 1];
+        const p3 = pts[Math.min(i + 2, pts.length - 1)];
+        const samples = Math.min(Math.max(Math.ceil(Math.hypot(p2[0] - p1[0], p2[1] - p1[1]) / step), 1), 16);
+        for (let k = 1; k <= samples; k++) {
+            const t = k / samples;
+            out.push([catmullRom(p0[0], p1[0], p2[0], p3[0], t), catmullRom(p0[1], p1[1], p2[1], p3[1], t)]);
+            if (pressure) outPressure.push(pressure[i] + (pressure[i + 1] - pressure[i]) * t);
+        }
+    }
+
+    return { ...data, pts: out, ...(pressure && { pressure: outPressure }) };
+}
+
+/** Uniform Catmull-Rom between b and c. */
+function catmullRom(a: number, b: number, c: number, d: number, t: number): number {
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return 0.5 * (2 * b + (c - a) * t + (2 * a - 5 * b + 4 * c - d) * t2 + (3 * b - a - 3 * c + d) * t3);
+}
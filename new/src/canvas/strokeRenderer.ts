@@ -0,0 +1,311 @@
+// canvas/strokeRenderer.ts
+//
+// Level-of-detail drawing of the model's items. Strokes big enough to matter on screen keep their
+// own cached Graphics, built once in their own units and only moved and scaled as the camera changes.
+// Strokes a few pixels across are merged per screen-sized tile into one shared Graphics, rebuilt only
+// when the tile's members change. Strokes under a pixel are not drawn at all, and cached graphics
+// that have been off screen for a while are destroyed. Connectors are drawn like large strokes, along
+// the route the model keeps for them, with their labels as text at the middle of the curve.
+
+import { Container, Graphics, Text } from "pixi.js";
+import type { CanvasView } from "./CanvasView";
+import { DeepPoint, deepOffset, deepToWorld, Frame, itemFrame, itemLocalBBox, convertPoint } from "./deepCoords";
+import { colorPallet, ConnectorProperties, isConnector, isStroke, isTextCard, isWormholeCard, Point, QuadItem, StrokeProperties, TextCardProperties } from "./types";
+import { drawWormhole } from "./wormhole";
+import { ConnectorRoute, drawConnector, routeMidpoint } from "./connector";
+import type { SelectionState } from "./selection";
+
+/** Strokes smaller than this on screen (px) are merged into their tile instead of drawn on their own. */
+const BATCH_PX = 24;
+/** Strokes smaller than this on screen (px) are not drawn. */
+const CULL_PX = 0.5;
+/** A tile is 2^TILE_BITS camera units wide, i.e. 256–1024 px depending on localScale. */
+const TILE_BITS = 9;
+/** How often (frames) to look for graphics to evict, and how long (frames) one may go unseen first. */
+const EVICT_CHECK_FRAMES = 120;
+const EVICT_AFTER_FRAMES = 600;
+/** Size of connector labels (px) at the zoom the connector was drawn at. */
+const LABEL_PX = 14;
+
+type Tile = {
+    g: Graphics;
+    frame: Frame;
+    /** Member strokes and the pts array each was drawn from, to notice edits. */
+    members: Map<QuadItem<StrokeProperties>, Point[]>;
+    /** Model revision and previewing selection the members were collected for. */
+    revision: number;
+    selection: SelectionState | null;
+    lastSeen: number;
+};
+
+/** floor(v / 2^bits), or v · 2^-bits when bits is negative. */
+const floorShift = (v: bigint, bits: number): bigint => (bits >= 0 ? v >> BigInt(bits) : v << BigInt(-bits));
+
+/** Size of an item on screen at a zoom of 2^zoomExp, ignoring localScale so tiles and views agree. */
+const nominalPx = (item: QuadItem, zoomExp: number) => Math.max(item.width, item.height) * Math.pow(2, zoomExp);
+
+export class StrokeRenderer {
+    private view: CanvasView;
+    /** Holds the tiles, below individually drawn strokes. */
+    private tileLayer = new Container();
+    private tiles = new Map<string, Tile>();
+    private lastSeen = new Map<string, number>();
+    /** Connector labels by connector id, evicted with the connector's graphics. */
+    private labels = new Map<string, Text>();
+    private shown = new Set<Container>();
+    private frame = 0;
+
+    constructor(view: CanvasView) {
+        this.view = view;
+    }
+
+    /** The container tiles are drawn into; the view adds it to its world under the strokes. */
+    get layer(): Container {
+        return this.tileLayer;
+    }
+
+    /** Draws one frame of `visible` items (as retrieved from the model for the current view). */
+    render(visible: QuadItem[]): void {
+        this.frame++;
+        const view = this.view;
+        const { exp: zoomExp } = view.getCameraFrame();
+        const ls = view.getZoomObj().localScale;
+        const selection = view.selection?.preview ? view.selection : null;
+        const shown = new Set<Container>();
+
+        for (const item of visible) {
+            if (isStroke(item)) {
+                // Small strokes are drawn by their tile, unless a selection preview is moving them
+                if (nominalPx(item, zoomExp) < BATCH_PX && !selection?.ids.has(item.id)) continue;
+                const g = this.graphicsFor(item.id);
+                view.drawStroke(g, item);
+                this.place(g, item, selection);
+                shown.add(g);
+            } else if (isWormholeCard(item)) {
+                if (nominalPx(item, zoomExp) * ls < CULL_PX) continue;
+                const g = this.graphicsFor(item.id);
+                drawWormhole(g, item);
+                this.place(g, item, selection);
+                shown.add(g);
+            } else if (isConnector(item)) {
+                // Orphans have no route, and nothing to draw until their end is back
+                const route = view.model.getConnectorRoute(item.id);
+                if (!route || nominalPx(item, zoomExp) * ls < CULL_PX) continue;
+                const frame: Frame = { origin: route.origin, exp: route.exp };
+                const g = this.graphicsFor(item.id);
+                drawConnector(g, item.data, route);
+                view.placeGraphics(g, frame);
+                shown.add(g);
+                if (item.data.label) {
+                    const label = this.labelFor(item, route);
+                    view.placeGraphics(label, frame);
+                    shown.add(label);
+                }
+            } else if (isTextCard(item) && view.overlay) {
+                view.overlay.syncPosition(item);
+            } else if (isTextCard(item)) {
+                // Views without notecards, such as the minimap, show where cards are
+                if (nominalPx(item, zoomExp) * ls < CULL_PX) continue;
+                const g = this.graphicsFor(item.id);
+                drawCardBox(g, item);
+                this.place(g, item, selection);
+                shown.add(g);
+            }
+        }
+
+        for (const tile of this.visibleTiles(zoomExp - TILE_BITS, selection)) {
+            view.placeGraphics(tile.g, tile.frame);
+            shown.add(tile.g);
+        }
+
+        // Only what was on screen last frame can need hiding
+        for (const g of this.shown) if (!shown.has(g)) g.visible = false;
+        this.shown = shown;
+
+        if (this.frame % EVICT_CHECK_FRAMES === 0) this.evict();
+    }
+
+    private graphicsFor(id: string): Graphics {
+        let g = this.view.strokeCache.get(id);
+        if (!g) {
+            g = new Graphics();
+            this.view.strokeCache.set(id, g);
+            this.view.world.addChild(g);
+        }
+        this.lastSeen.set(id, this.frame);
+        return g;
+    }
+
+    /** A connector's label, in the connector's units and centered on the middle of its curve. */
+    private labelFor(connector: QuadItem<ConnectorProperties>, route: ConnectorRoute): Text {
+        let label = this.labels.get(connector.id);
+        if (!label) {
+            label = new Text({ text: "", anchor: 0.5, resolution: 2, style: { fill: colorPallet.seafoam, stroke: { color: colorPallet.peony, width: 3 } } });
+            this.labels.set(connector.id, label);
+            this.view.world.addChild(label);
+        }
+        // Text only re-renders when these change
+        label.text = connector.data.label ?? "";
+        label.style.fontSize = LABEL_PX / connector.data.zoom.localScale;
+        const [mx, my] = routeMidpoint(route);
+        label.pivot.set(-mx, -my);
+        return label;
+    }
+
+    private place(g: Graphics, item: QuadItem, selection: SelectionState | null) {
+        // Selected items follow an uncommitted move / scale
+        const preview = selection?.ids.has(item.id) ? { frame: selection.frame, transform: selection.preview! } : null;
+        this.view.placeGraphics(g, itemFrame(item), preview);
+    }
+
+    /** The tiles covering the screen, each brought up to date. */
+    private *visibleTiles(tileExp: number, selection: SelectionState | null): Generator<Tile> {
+        const { width, height } = this.view.app.renderer;
+        const a = this.view.screenToDeep(0, 0);
+        const b = this.view.screenToDeep(width, height);
+        const i0 = floorShift(a.x, a.exp - tileExp);
+        const j0 = floorShift(a.y, a.exp - tileExp);
+        const i1 = floorShift(b.x, b.exp - tileExp);
+        const j1 = floorShift(b.y, b.exp - tileExp);
+
+        for (let i = i0; i <= i1; i++) {
+            for (let j = j0; j <= j1; j++) {
+                const key = `${tileExp}:${i}:${j}`;
+                let tile = this.tiles.get(key);
+                if (!tile) {
+                    const g = new Graphics();
+                    this.tileLayer.addChild(g);
+                    // Tile geometry is in camera-sized units relative to the tile corner, so it stays small
+                    tile = { g, frame: { origin: { x: i, y: j, exp: tileExp }, exp: tileExp + TILE_BITS }, members: new Map(), revision: -1, selection: null, lastSeen: 0 };
+                    this.tiles.set(key, tile);
+                }
+                tile.lastSeen = this.frame;
+                this.updateTile(tile, selection);
+                yield tile;
+            }
+        }
+    }
+
+    /** Re-collects a tile's members after a model change and redraws it if they differ. */
+    private updateTile(tile: Tile, selection: SelectionState | null): void {
+        const revision = this.view.model.store.getState().revision;
+        if (tile.revision === revision && tile.selection === selection) return;
+        tile.revision = revision;
+        tile.selection = selection;
+
+        const origin = tile.frame.origin;
+        const tileExp = origin.exp;
+        const zoomExp = tile.frame.exp;
+        const corner = deepToWorld(origin);
+        const size = Math.pow(2, -tileExp);
+        // Padded by the rounding of float world coordinates, like the view rect
+        const pad = (Math.abs(corner.x) + Math.abs(corner.y)) * Math.pow(2, -48);
+        const candidates = this.view.model.getVisibleItems({ x: corner.x - pad, y: corner.y - pad, width: size + pad * 2, height: size + pad * 2 });
+
+        const members = new Map<QuadItem<StrokeProperties>, Point[]>();
+        for (const item of candidates) {
+            if (!isStroke(item) || selection?.ids.has(item.id)) continue;
+            const px = nominalPx(item, zoomExp);
+            if (px >= BATCH_PX || px < CULL_PX) continue;
+            // Each stroke belongs to the one tile its center is in, decided exactly
+            const c = itemCenter(item);
+            if (floorShift(c.x, c.exp - tileExp) !== origin.x || floorShift(c.y, c.exp - tileExp) !== origin.y) continue;
+            members.set(item, item.data.pts);
+        }
+
+        if (sameMembers(members, tile.members)) return;
+        tile.members = members;
+        drawTile(tile);
+    }
+
+    /** Destroys every cached graphics, e.g. when another board is opened. */
+    reset(): void {
+        for (const [id, g] of this.view.strokeCache) {
+            if (id === "temp") continue;
+            g.destroy();
+            this.view.strokeCache.delete(id);
+        }
+        for (const label of this.labels.values()) label.destroy();
+        this.labels.clear();
+        for (const tile of this.tiles.values()) tile.g.destroy();
+        this.tiles.clear();
+        this.lastSeen.clear();
+        this.shown.clear();
+    }
+
+    /** Destroys graphics that have not been on screen for EVICT_AFTER_FRAMES. */
+    private evict(): void {
+        const cutoff = this.frame - EVICT_AFTER_FRAMES;
+        for (const [id, seen] of this.lastSeen) {
+            if (seen > cutoff) continue;
+            const g = this.view.strokeCache.get(id);
+            if (g) {
+                g.destroy();
+                this.shown.delete(g);
+            }
+            this.view.strokeCache.delete(id);
+            this.lastSeen.delete(id);
+            const label = this.labels.get(id);
+            if (label) {
+                label.destroy();
+                this.shown.delete(label);
+                this.labels.delete(id);
+            }
+        }
+        for (const [key, tile] of this.tiles) {
+            if (tile.lastSeen > cutoff) continue;
+            tile.g.destroy();
+            this.shown.delete(tile.g);
+            this.tiles.delete(key);
+        }
+    }
+}
+
+function itemCenter(item: QuadItem): DeepPoint {
+    const frame = itemFrame(item);
+    const box = itemLocalBBox(item);
+    return deepOffset(frame.origin, box.x + box.width / 2, box.y + box.height / 2, frame.exp);
+}
+
+/** A card as a plain box the colors of a notecard, in its own units. */
+function drawCardBox(g: Graphics & { lastBBox?: string }, item: QuadItem<TextCardProperties>): void {
+    const box = itemLocalBBox(item);
+    const key = `${box.width},${box.height}`;
+    if (g.lastBBox === key) return;
+    g.clear();
+    g.rect(box.x, box.y, box.width, box.height).fill({ color: 0xf0f0c0 }).stroke({ width: Math.min(box.width, box.height) / 50, color: 0x333333 });
+    g.lastBBox = key;
+}
+
+function sameMembers(a: Map<QuadItem<StrokeProperties>, Point[]>, b: Map<QuadItem<StrokeProperties>, Point[]>): boolean {
+    if (a.size !== b.size) return false;
+    for (const [item, pts] of a) if (b.get(item) !== pts) return false;
+    return true;
+}
+
+/**
+ * Draws all of a tile's strokes into its one Graphics as plain polylines, dropping points under a
+ * pixel apart: at a few pixels across, pressure and smoothing are not visible anyway.
+ */
+function drawTile(tile: Tile): void {
+    const g = tile.g;
+    g.clear();
+    for (const item of tile.members.keys()) {
+        const from = itemFrame(item);
+        const k = Math.pow(2, tile.frame.exp - from.exp);
+        const [ox, oy] = convertPoint(from, tile.frame, [0, 0]);
+        const pts = item.data.pts;
+
+        let [lx, ly] = [ox + pts[0][0] * k, oy + pts[0][1] * k];
+        g.moveTo(lx, ly);
+        for (let i = 1; i < pts.length; i++) {
+            const x = ox + pts[i][0] * k;
+            const y = oy + pts[i][1] * k;
+            if (i < pts.length - 1 && Math.abs(x - lx) < 1 && Math.abs(y - ly) < 1) continue;
+            g.lineTo(x, y);
+            lx = x;
+            ly = y;
+        }
+        g.stroke({ width: item.data.stroke.width * k, color: item.data.stroke.color, cap: "round", join: "round" });
+    }
+}
@@ -0,0 +1,207 @@
+// canvas/svgExport.ts
+//
+// Vector export of the board. Every item is converted from its own frame into one export frame and
+// scaled so the exported region spans screen-sized numbers, wherever in the deep world it came from.
+
+import type { CanvasView } from "./CanvasView";
+import { BBox, colorPallet, ConnectorProperties, isConnector, isStroke, isTextCard, isWormholeCard, Point, QuadItem, StrokeProperties, TextCardProperties } from "./types";
+import { convertBBox, convertPoint, Frame, itemFrame, itemLocalBBox, itemsCenter } from "./deepCoords";
+import { bboxIntersects, unionBBox } from "./geometry";
+import { strokeOutline, strokeRadii } from "./strokeOutline";
+import { smoothStroke } from "./strokePipeline";
+import { RING_COUNT } from "./wormhole";
+import { arrowHead, ConnectorRoute, routeMidpoint } from "./connector";
+
+export type SvgExportOptions = {
+    /** The current view, the bbox of the current selection, or every item on the board. */
+    region: "view" | "selection" | "all";
+    /** Cards as HTML in a foreignObject (with a plain-text fallback for viewers without one), or as plain text only. */
+    textCards?: "html" | "text";
+};
+
+/** Longest side of an "all" export, in SVG units. View and selection exports keep their on-screen size. */
+const FIT_PX = 2048;
+/** Margin around a selection or the whole board, in SVG units. */
+const MARGIN_PX = 16;
+/** Items smaller than this in the export (SVG units) are left out, like the renderer culls them. */
+const MIN_PX = 0.25;
+/** Card text size and line height, in the card's CSS px. */
+const CARD_FONT_PX = 14;
+const CARD_LINE_PX = 18;
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const XHTML_NS = "http://www.w3.org/1999/xhtml";
+
+/** How one frame's coordinates map to SVG units: (p − box corner) · scale. */
+type ExportSpace = { frame: Frame; box: BBox; scale: number };
+
+/**
+ * The region as an SVG document, or null if there is nothing to export (e.g. no selection).
+ * Coordinates start at 0,0 in the region's top-left corner.
+ */
+export function exportSvg(view: CanvasView, options: SvgExportOptions): string | null {
+    const region = exportRegion(view, options.region);
+    if (!region) return null;
+    const { space, items } = region;
+    const width = Math.ceil(space.box.width * space.scale);
+    const height = Math.ceil(space.box.height * space.scale);
+    const out = { x: 0, y: 0, width, height };
+
+    const body: string[] = [];
+    for (const item of items) {
+        const from = itemFrame(item);
+        const k = Math.pow(2, space.frame.exp - from.exp) * space.scale;
+        const box = toSvgBox(space, convertBBox(from, space.frame, itemLocalBBox(item)));
+        if (Math.max(box.width, box.height) < MIN_PX || !Number.isFinite(k) || !bboxIntersects(box, out)) continue;
+        // Item point → SVG units
+        const [ox, oy] = toSvgPoint(space, convertPoint(from, space.frame, [0, 0]));
+        const toSvg = (p: Point): Point => [ox + p[0] * k, oy + p[1] * k];
+
+        if (isStroke(item)) body.push(strokeSvg(item, toSvg, k, view.strokePipeline.smoothing));
+        else if (isWormholeCard(item)) body.push(wormholeSvg(box));
+        else if (isTextCard(item)) body.push(textCardSvg(item, box, k, options.textCards ?? "html"));
+        else if (isConnector(item)) {
+            // Routes are relative to the connector's anchor, like stroke points; orphans are not drawn
+            const route = view.model.getConnectorRoute(item.id);
+            if (route) body.push(connectorSvg(item, route, toSvg, k));
+        }
+    }
+
+    return [
+        `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+        ...body,
+        `</svg>`,
+    ].join("\n");
+}
+
+/** The export frame, the region in it and its scale, plus the items to consider. */
+function exportRegion(view: CanvasView, region: SvgExportOptions["region"]): { space: ExportSpace; items: QuadItem[] } | null {
+    if (region === "view") {
+        // Screen px, exactly as on screen
+        const space = { frame: view.getCameraFrame(), box: view.getFrameViewRect(), scale: view.getZoomObj().localScale };
+        return { space, items: view.model.getVisibleItems(view.getViewRect()) };
+    }
+
+    const items: QuadItem[] = region === "selection" ? (view.selection?.items ?? []) : view.model.getAllItems();
+    if (items.length === 0) return null;
+
+    let frame: Frame;
+    if (region === "selection") {
+        frame = view.selection!.frame;
+    } else {
+        // Centered on the content, in the units of its coarsest item, so the numbers stay small at any depth
+        frame = { origin: itemsCenter(items)!, exp: Math.min(...items.map((i) => itemFrame(i).exp)) };
+    }
+    const union = unionBBox(items.map((i) => convertBBox(itemFrame(i), frame, itemLocalBBox(i))))!;
+    const scale = region === "selection" ? view.pxPerUnit(frame.exp) : FIT_PX / Math.max(union.width, union.height, Number.MIN_VALUE);
+    const margin = MARGIN_PX / scale;
+    const box = { x: union.x - margin, y: union.y - margin, width: union.width + margin * 2, height: union.height + margin * 2 };
+    return { space: { frame, box, scale }, items };
+}
+
+const toSvgPoint = (space: ExportSpace, p: Point): Point => [(p[0] - space.box.x) * space.scale, (p[1] - space.box.y) * space.scale];
+
+const toSvgBox = (space: ExportSpace, b: BBox): BBox => {
+    const [x, y] = toSvgPoint(space, [b.x, b.y]);
+    return { x, y, width: b.width * space.scale, height: b.height * space.scale };
+};
+
+/** Two decimals are well below a pixel; more only bloats the file. */
+const num = (v: number) => String(Math.round(v * 100) / 100);
+
+const hexColor = (color: number) => `#${color.toString(16).padStart(6, "0")}`;
+
+const escapeXml = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** Polyline strokes as a stroked path, pressure strokes as their filled outline, as the canvas draws them. */
+function strokeSvg(item: QuadItem<StrokeProperties>, toSvg: (p: Point) => Point, k: number, smoothing: boolean): string {
+    const data = smoothing ? smoothStroke(item.data) : item.data;
+    const color = hexColor(data.stroke.color);
+    const radii = strokeRadii(data);
+    if (!radii) {
+        const d = data.pts.map((p, i) => `${i === 0 ? "M" : "L"}${toSvg(p).map(num).join(" ")}`).join("");
+        return `<path d="${d}" fill="none" stroke="${color}" stroke-width="${num(data.stroke.width * k)}"/>`;
+    }
+
+    const { polygons, discs } = strokeOutline(data.pts, radii);
+    const d = polygons.map((poly) => poly.map((p, i) => `${i === 0 ? "M" : "L"}${toSvg(p).map(num).join(" ")}`).join("") + "Z").join("");
+    const circles = discs.map(([x, y, r]) => {
+        const [cx, cy] = toSvg([x, y]);
+        return `<circle cx="${num(cx)}" cy="${num(cy)}" r="${num(r * k)}"/>`;
+    });
+    return [`<g fill="${color}">`, ...(d ? [`<path d="${d}"/>`] : []), ...circles, `</g>`].join("");
+}
+
+/** The curve, arrowheads and label, like drawConnector and the renderer's labels. */
+function connectorSvg(item: QuadItem<ConnectorProperties>, route: ConnectorRoute, toSvg: (p: Point) => Point, k: number): string {
+    const { stroke, arrows, label } = item.data;
+    const color = hexColor(stroke.color);
+    const [p0, p1, p2, p3] = route.pts.map((p) => toSvg(p).map(num).join(" "));
+    const parts = [`<path d="M${p0}C${p1} ${p2} ${p3}" fill="none" stroke="${color}" stroke-width="${num(stroke.width * k)}"/>`];
+    const heads = [...(arrows.end ? [arrowHead(route.pts[3], route.pts[2], stroke.width)] : []), ...(arrows.start ? [arrowHead(route.pts[0], route.pts[1], stroke.width)] : [])];
+    for (const head of heads) parts.push(`<path d="${head.map((p, i) => `${i === 0 ? "M" : "L"}${toSvg(p).map(num).join(" ")}`).join("")}Z" fill="${color}"/>`);
+    if (label) {
+        const [x, y] = toSvg(routeMidpoint(route));
+        const size = (CARD_FONT_PX / item.data.zoom.localScale) * k;
+        parts.push(
+            `<text x="${num(x)}" y="${num(y)}" font-family="sans-serif" font-size="${num(size)}" text-anchor="middle" dominant-baseline="middle" fill="${color}">${escapeXml(label)}</text>`
+        );
+    }
+    return `<g>${parts.join("")}</g>`;
+}
+
+/** Concentric rings, like drawWormhole. */
+function wormholeSvg(box: BBox): string {
+    const cx = num(box.x + box.width / 2);
+    const cy = num(box.y + box.height / 2);
+    const r = Math.min(box.width, box.height) / 2;
+    const circles: string[] = [];
+    for (let i = 0; i < RING_COUNT; i++) {
+        const color = hexColor(i % 2 === 0 ? colorPallet.seafoam : colorPallet.driftwood);
+        circles.push(`<circle cx="${cx}" cy="${cy}" r="${num(r * (1 - i / RING_COUNT))}" fill="${color}"/>`);
+    }
+    circles.push(`<circle cx="${cx}" cy="${cy}" r="${num(r / RING_COUNT)}" fill="#000000"/>`);
+    return `<g>${circles.join("")}</g>`;
+}
+
+/**
+ * A card laid out at its own CSS size and scaled into place: card background and title, then its
+ * content as XHTML, or as lines of plain text where foreignObject is not wanted or not supported.
+ */
+function textCardSvg(item: QuadItem<TextCardProperties>, box: BBox, k: number, mode: "html" | "text"): string {
+    // Card units → CSS px at the card's own zoom
+    const cssScale = item.data.zoom.localScale;
+    const local = itemLocalBBox(item);
+    const cssW = local.width * cssScale;
+    const cssH = local.height * cssScale;
+    const s = k / cssScale;
+    const doc = new DOMParser().parseFromString(item.data.htmlString, "text/html");
+
+    const card = `<rect width="${num(cssW)}" height="${num(cssH)}" rx="5" fill="#f0f0c0" stroke="#333333" stroke-width="2"/>`;
+    const title = `<text x="8" y="${CARD_LINE_PX}" font-family="sans-serif" font-size="${CARD_FONT_PX}" font-weight="bold">${escapeXml(item.data.title)}</text>`;
+    const text = plainTextSvg(doc, cssH);
+
+    let content = text;
+    if (mode === "html") {
+        const serializer = new XMLSerializer();
+        const xhtml = Array.from(doc.body.childNodes, (n) => serializer.serializeToString(n)).join("");
+        const foreign =
+            `<foreignObject requiredExtensions="${XHTML_NS}" x="0" y="${CARD_LINE_PX + 6}" width="${num(cssW)}" height="${num(Math.max(cssH - CARD_LINE_PX - 6, 0))}">` +
+            `<div xmlns="${XHTML_NS}" style="padding: 0 8px; font-family: sans-serif; font-size: ${CARD_FONT_PX}px; overflow: hidden">${xhtml}</div>` +
+            `</foreignObject>`;
+        content = `<switch>${foreign}${text}</switch>`;
+    }
+
+    return `<g transform="translate(${num(box.x)} ${num(box.y)}) scale(${num(s)})">${card}${title}${content}</g>`;
+}
+
+/** A card's content as text lines, one per block, cut off at the card's bottom edge. */
+function plainTextSvg(doc: Document, cssH: number): string {
+    const blocks = doc.body.querySelectorAll("p, div, li, h1, h2, h3, h4, h5, h6, pre, blockquote");
+    const lines = (blocks.length ? Array.from(blocks, (b) => (b.querySelector("p, div, li") ? "" : (b.textContent ?? ""))) : (doc.body.textContent ?? "").split("\n"))
+        .map((l) => l.trim())
+        .filter((l) => l !== "");
+    const maxLines = Math.max(Math.floor((cssH - CARD_LINE_PX * 2) / CARD_LINE_PX), 0);
+    const tspans = lines.slice(0, maxLines).map((l, i) => `<tspan x="8" y="${CARD_LINE_PX * (i + 2) + 6}">${escapeXml(l)}</tspan>`);
+    return `<text font-family="sans-serif" font-size="${CARD_FONT_PX}">${tspans.join("")}</text>`;
+}
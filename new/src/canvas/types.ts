@@ -1,5 +1,8 @@
 // canvas/types.ts
 import { Rectangle } from "@timohausmann/quadtree-ts";
+import type { Anchor } from "./deepCoords";
+import type { StrokePipelineOptions } from "./strokePipeline";
+import type { RichDoc } from "../Notecard/richText";
 
 export type Point = [x: number, y: number];
 
@@ -9,10 +12,17 @@ export type CanvasViewOptions = {
     width: number;
     /** A fixed height for the canvas in pixels. Ignored if fullscreen is true. */
     height: number;
+    /** Simplification and smoothing of drawn strokes. Missing fields use DEFAULT_STROKE_PIPELINE. */
+    strokePipeline: Partial<StrokePipelineOptions>;
+    /** Show cards as editable notecards over the canvas. Defaults to true; without, they are drawn as plain boxes. */
+    notecards: boolean;
 };
 
 export interface StrokeData {
+    /** Relative to the item's anchor, in its units (see deepCoords). */
     pts: Point[];
+    /** Pen pressure (0–1) per point, parallel to `pts`. Absent for mouse / touch strokes and older data. */
+    pressure?: number[];
     type: "stroke-rect";
     stroke: {
         width: number;
@@ -23,9 +33,19 @@ export interface StrokeData {
 export type BBox = { x: number; y: number; width: number; height: number };
 export type Zoom = { zoomExp: number; localScale: number };
 
+/** A place to move the camera to. `center`, when present, is exact where the float bbox is not. */
+export type CameraTarget = BBox & { zoom: Zoom; center?: Anchor };
+
 export interface QuadTreeItemProperties<Data extends Object> extends BBox {
     id: string;
     data: Data;
+    /**
+     * Exact position of the item's local frame. The bbox is only a float approximation used by the quadtree.
+     * Missing on items saved before deep coordinates; those are anchored when migrated.
+     */
+    anchor?: Anchor;
+    /** Creation time in ms since the epoch; 0 for items from before it was recorded. */
+    createdAt?: number;
 }
 export type StrokeProperties = QuadTreeItemProperties<StrokeData>;
 
@@ -38,7 +58,10 @@ export type TextCardData = {
     zoom: Zoom;
     type: "text-card";
     title: string;
-    htmlString: string; // the text card content
+    /** The card content. */
+    doc: RichDoc;
+    /** `doc` rendered by docToHtml, kept with it for display, export and search. */
+    htmlString: string;
 };
 
 export type TextCardProperties = QuadTreeItemProperties<TextCardData>;
@@ -47,17 +70,40 @@ export type WormholeCardData = {
     type: "wormhole-card";
     title: string;
     zoom: Zoom;
-    targetPosition: BBox & { zoom: Zoom }; // Where it is pointing to in the world
+    targetPosition: CameraTarget; // Where it is pointing to in the world
 };
 
 export type WormholeCardProperties = QuadTreeItemProperties<WormholeCardData>;
 
-export type QuadItemProperties = TextCardProperties | WormholeCardProperties | StrokeProperties;
+/**
+ * A curve between two other items, routed between their bboxes. Its bbox and anchor (the top-left
+ * corner of the curve) follow its endpoints; only what is below is its own.
+ */
+export type ConnectorData = {
+    type: "connector";
+    /** Ids of the items it connects. */
+    from: string;
+    to: string;
+    label?: string;
+    /** Arrowheads at the `from` and `to` ends. */
+    arrows: { start: boolean; end: boolean };
+    /** Width in the connector's units (see deepCoords), as for strokes. */
+    stroke: { width: number; color: number };
+    /** Zoom it was drawn at; its frame has the units of this zoom. */
+    zoom: Zoom;
+};
+
+export type ConnectorProperties = QuadTreeItemProperties<ConnectorData>;
+
+export type QuadItemProperties = TextCardProperties | WormholeCardProperties | StrokeProperties | ConnectorProperties;
 
 export type QuadItem<P extends QuadItemProperties = QuadItemProperties> = Rectangle<P["data"]> & P;
 
 export const getQuadItem = <P extends QuadItemProperties>(p: P) => {
-    return Object.assign(new Rectangle<P["data"]>(p), { id: p.id }) as QuadItem<P>;
+    const item = Object.assign(new Rectangle<P["data"]>(p), { id: p.id }) as QuadItem<P>;
+    if (p.anchor) item.anchor = p.anchor;
+    if (p.createdAt !== undefined) item.createdAt = p.createdAt;
+    return item;
 };
 
 export const isStroke = (i: QuadItem): i is QuadItem<StrokeProperties> => i.data.type === "stroke-rect";
@@ -65,10 +111,16 @@ export const isTextCard = (i: QuadItem): i is QuadItem<TextCardProperties> => i.
 
 export const isWormholeCard = (i: QuadItem): i is QuadItem<WormholeCardProperties> => i.data.type === "wormhole-card";
 
+export const isConnector = (i: QuadItem): i is QuadItem<ConnectorProperties> => i.data.type === "connector";
+
 export interface CanvasTool {
     pointerDown(e: PointerEvent): void;
     pointerMove(e: PointerEvent): void;
     pointerUp(e: PointerEvent): void;
+    /** Called when another tool replaces this one, to drop any overlay graphics. */
+    deactivate?(): void;
+    /** Abandons the gesture in progress without committing it, e.g. when a second finger starts a pinch. */
+    cancel?(): void;
 }
 
 export const colorPallet = {
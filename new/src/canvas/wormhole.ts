@@ -0,0 +1,42 @@
+// canvas/wormhole.ts
+import { Graphics } from "pixi.js";
+import { colorPallet, isWormholeCard, Point, QuadItem, WormholeCardProperties } from "./types";
+import { Frame, itemFrame, itemLocalBBox } from "./deepCoords";
+
+/** Number of alternating rings a portal is drawn with. */
+export const RING_COUNT = 6;
+
+/**
+ * Draws a wormhole as a set of concentric rings filling its bbox, in the item's own units
+ * like strokes, so it is placed and previewed the same way.
+ */
+export function drawWormhole(g: Graphics & { lastBBox?: string }, item: QuadItem<WormholeCardProperties>): void {
+    const box = itemLocalBBox(item);
+    const key = `${box.x},${box.y},${box.width},${box.height}`;
+    if (g.lastBBox === key) return;
+
+    const cx = box.x + box.width / 2;
+    const cy = box.y + box.height / 2;
+    const r = Math.min(box.width, box.height) / 2;
+
+    g.clear();
+    for (let i = 0; i < RING_COUNT; i++) {
+        const rr = r * (1 - i / RING_COUNT);
+        g.circle(cx, cy, rr).fill({ color: i % 2 === 0 ? colorPallet.seafoam : colorPallet.driftwood });
+    }
+    g.circle(cx, cy, r / RING_COUNT).fill({ color: 0x000000 });
+    g.lastBBox = key;
+}
+
+/**
+ * The wormhole whose disc contains a point, if any.
+ * @param toItemFrame The point expressed in a given item's frame.
+ */
+export function hitWormhole(items: QuadItem[], toItemFrame: (frame: Frame) => Point): QuadItem<WormholeCardProperties> | undefined {
+    return items.filter(isWormholeCard).find((w) => {
+        const box = itemLocalBBox(w);
+        const p = toItemFrame(itemFrame(w));
+        const r = Math.min(box.width, box.height) / 2;
+        return Math.hypot(p[0] - (box.x + box.width / 2), p[1] - (box.y + box.height / 2)) <= r;
+    });
+}
@@ -0,0 +1,37 @@
+// canvas/zoom.ts
+import { Zoom } from "./types";
+
+/** Keeps localScale in [0.5, 2) by moving whole powers of two into zoomExp. */
+export function normalizeZoom(zoom: Zoom): Zoom {
+    let { zoomExp, localScale } = zoom;
+    while (localScale >= 2) {
+        localScale /= 2;
+        zoomExp++;
+    }
+    while (localScale < 0.5) {
+        localScale *= 2;
+        zoomExp--;
+    }
+    return { zoomExp, localScale };
+}
+
+/** The world → screen scale factor a zoom stands for. */
+export function zoomToScale(zoom: Zoom): number {
+    return zoom.localScale * Math.pow(2, zoom.zoomExp);
+}
+
+/** A zoom `factor` times closer in (factor < 1 zooms out). */
+export function scaleZoom(zoom: Zoom, factor: number): Zoom {
+    return normalizeZoom({ zoomExp: zoom.zoomExp, localScale: zoom.localScale * factor });
+}
+
+/** Zoom as a single number of powers of two, log2(localScale · 2^zoomExp). */
+export function zoomToLog2(zoom: Zoom): number {
+    return zoom.zoomExp + Math.log2(zoom.localScale);
+}
+
+/** Inverse of zoomToLog2, normalized so zoomExp never loses the integer part to rounding. */
+export function log2ToZoom(level: number): Zoom {
+    const zoomExp = Math.floor(level);
+    return normalizeZoom({ zoomExp, localScale: Math.pow(2, level - zoomExp) });
+}
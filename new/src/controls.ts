@@ -1,6 +1,8 @@
 // controls.ts
 import { CanvasView } from "./canvas/CanvasView";
 import { DrawingModel } from "./DrawingData/DrawingModel";
+import { ImportOptions } from "./DrawingData/DrawingDataService";
+import { exportSvg } from "./canvas/svgExport";
 
 const addClear = (model: DrawingModel) => {
     const btn = document.querySelector(".clear-btn");
@@ -8,21 +10,21 @@ const addClear = (model: DrawingModel) => {
 
     btn.addEventListener("pointerdown", (e) => {
         e.preventDefault();
-        model.clearDrawing();
+        if (confirm("Delete everything on this board?")) model.clearDrawing();
     });
 };
 
 // Save provides functionality to load the user's data from a json file.
-export async function exportFile(json: string) {
+export async function exportFile(content: string | Uint8Array, filename = "endless-canvas.json", type = "application/json") {
     // // 3.  Turn into a Blob and trigger download
-    const blob = new Blob([json], {
-        type: "application/json",
+    const blob = new Blob([content], {
+        type,
     });
 
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = "endless-canvas.json";
+    a.download = filename;
     a.click();
     URL.revokeObjectURL(url);
     a.remove();
@@ -39,36 +41,110 @@ const addExport = (model: DrawingModel) => {
     });
 };
 
+// A gzipped binary file, far smaller than the JSON for big boards. Import detects either format.
+const addBinaryExport = (model: DrawingModel) => {
+    const btn = document.querySelector(".export-binary-btn");
+    if (!btn) return;
+
+    btn.addEventListener("pointerdown", (e) => {
+        e.preventDefault();
+        model.exportDrawingBinary({ gzip: true }).then((bytes) => {
+            exportFile(bytes, "endless-canvas.icnv", "application/octet-stream");
+        });
+    });
+};
+
+// "svg" exports the selection, or the view if nothing is selected; "svg all" the whole board.
+const addSvgExport = (mainCanvasView: CanvasView) => {
+    const exportRegion = (region: "view" | "selection" | "all") => {
+        const svg = exportSvg(mainCanvasView, { region });
+        if (svg) exportFile(svg, "endless-canvas.svg", "image/svg+xml");
+    };
+    document.querySelector(".svg-btn")?.addEventListener("pointerdown", (e) => {
+        e.preventDefault();
+        exportRegion(mainCanvasView.selection ? "selection" : "view");
+    });
+    document.querySelector(".svg-all-btn")?.addEventListener("pointerdown", (e) => {
+        e.preventDefault();
+        exportRegion("all");
+    });
+};
+
+// Import replaces the drawing; merge adds the file to it, centered in the current view.
 const addImport = (model: DrawingModel, mainCanvasView: CanvasView) => {
-    const btn = document.querySelector(".import-btn");
+    const importBtn = document.querySelector(".import-btn");
+    const mergeBtn = document.querySelector(".merge-btn");
     const input = document.getElementById("upload-file") as HTMLInputElement | null;
-    if (!btn || !input) return;
+    if (!importBtn || !input) return;
 
-    btn.addEventListener("pointerdown", (e) => {
+    let options: ImportOptions = { mode: "replace" };
+    importBtn.addEventListener("pointerdown", (e) => {
         e.preventDefault();
+        options = { mode: "replace" };
+        input.click();
+    });
+    mergeBtn?.addEventListener("pointerdown", (e) => {
+        e.preventDefault();
+        options = { mode: "merge", onConflict: "rekey", placeAt: mainCanvasView.getCameraState().center };
         input.click();
     });
 
     input.addEventListener(
         "change",
         async function (e) {
-            // Pause drawing to avoid accidental click
-            mainCanvasView.drawState.frozen = true;
-            mainCanvasView.drawState.active = false;
             const files = this.files;
             if (!files || files.length == 0) return;
             const json: File = files[0];
-            await model.loadFromFile(json);
-            mainCanvasView.drawState.frozen = false;
+            // Pause drawing to avoid accidental click
+            mainCanvasView.drawState.frozen = true;
+            mainCanvasView.drawState.active = false;
+            try {
+                const report = await model.loadFromFile(json, options);
+                const problems: string[] = [];
+                if (report.rejected.length > 0) problems.push(`${report.rejected.length} invalid items in ${json.name} were not imported.`);
+                if (report.sanitized.length > 0) problems.push(`Unsafe content was removed from ${report.sanitized.length} cards.`);
+                if (problems.length > 0) alert(`${problems.join("\n")} See the console for details.`);
+            } catch (error: any) {
+                alert(error.message);
+            } finally {
+                mainCanvasView.drawState.frozen = false;
+                // Choosing the same file again should fire another change
+                this.value = "";
+            }
         },
         false
     );
 };
 
+// Text fields keep the browser's own undo for typing.
+export const isTextInput = (target: EventTarget | null) => {
+    const el = target as HTMLElement | null;
+    return !!el && (el.isContentEditable || el.tagName === "INPUT" || el.tagName === "TEXTAREA");
+};
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on mac), plus Ctrl+Y for redo.
+const addUndoRedo = (model: DrawingModel) => {
+    document.addEventListener("keydown", (e) => {
+        if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) return;
+        const key = e.key.toLowerCase();
+        if (key === "z") {
+            e.preventDefault();
+            if (e.shiftKey) model.redo();
+            else model.undo();
+        } else if (key === "y") {
+            e.preventDefault();
+            model.redo();
+        }
+    });
+};
+
 export const initControlListeners = (model: DrawingModel, mainCanvasView: CanvasView) => {
     addClear(model);
     addExport(model);
+    addBinaryExport(model);
+    addSvgExport(mainCanvasView);
     addImport(model, mainCanvasView);
+    addUndoRedo(model);
 };
 
 // Adds event listeners for controls.
@@ -0,0 +1,121 @@
+import { appStore } from "../appState";
+import { CameraState } from "../canvas/cameraFlight";
+import { CanvasView } from "../canvas/CanvasView";
+import { deepToWorld, toAnchor } from "../canvas/deepCoords";
+import { createSelection, isEditableItem } from "../canvas/selection";
+import { CameraTarget } from "../canvas/types";
+import { normalizeZoom } from "../canvas/zoom";
+import { DrawingModel } from "../DrawingData/DrawingModel";
+
+/** How often (ms) the hash follows the camera while the user navigates. */
+const HASH_UPDATE_MS = 250;
+
+/** What a link points at: a board, the camera on it and an item to focus, each optional. */
+export type DeepLink = { board?: string; camera?: CameraState; item?: string };
+
+const INTEGER = /^-?\d+$/;
+
+/**
+ * The URL hash of a link, e.g. `#b=<board>&z=-40&s=1.5&c=123,-45,-8&i=<item>`: the zoom's exponent and
+ * local scale, and the exact world point at the center of the screen as integers in units of 2^-exp,
+ * so a link is as precise as the camera at any depth.
+ */
+export function linkHash(link: DeepLink): string {
+    const parts: string[] = [];
+    if (link.board) parts.push(`b=${encodeURIComponent(link.board)}`);
+    if (link.camera) {
+        const { center, zoom } = link.camera;
+        // A number's default string is the shortest one that reads back as exactly that number
+        parts.push(`z=${zoom.zoomExp}`, `s=${zoom.localScale}`, `c=${center.x},${center.y},${center.exp}`);
+    }
+    if (link.item) parts.push(`i=${encodeURIComponent(link.item)}`);
+    return `#${parts.join("&")}`;
+}
+
+/** Reads a hash written by linkHash. Parts that are missing or malformed are left out. */
+export function parseLinkHash(hash: string): DeepLink {
+    const params = new URLSearchParams(hash.replace(/^#/, ""));
+    const link: DeepLink = {};
+    const board = params.get("b");
+    if (board) link.board = board;
+    const item = params.get("i");
+    if (item) link.item = item;
+
+    const zoomExp = params.get("z") ?? "";
+    const localScale = Number(params.get("s"));
+    const center = (params.get("c") ?? "").split(",");
+    if (INTEGER.test(zoomExp) && Number.isFinite(localScale) && localScale > 0 && center.length === 3 && center.every((v) => INTEGER.test(v))) {
+        link.camera = {
+            center: { x: BigInt(center[0]), y: BigInt(center[1]), exp: Number(center[2]) },
+            zoom: normalizeZoom({ zoomExp: Number(zoomExp), localScale }),
+        };
+    }
+    return link;
+}
+
+const cameraTarget = ({ center, zoom }: CameraState): CameraTarget => ({ ...deepToWorld(center), width: 0, height: 0, zoom, center: toAnchor(center) });
+
+// Keeps the URL hash on the main camera, and the camera on the hash: a link opens the board where it
+// was copied, with the item that was selected (if one was) selected again. Navigating replaces the
+// hash of the current history entry; each flyTo (bookmarks, search, wormholes, the minimap) adds an
+// entry, so back and forward fly between the places jumped to.
+export function initDeepLink(model: DrawingModel, mainCanvasView: CanvasView) {
+    let written = location.hash;
+    /** Flights running. Until they end, the entry being left keeps the camera they started from. */
+    let flying = 0;
+    /** Set while flying to a history entry, which must not add another. */
+    let restoring = false;
+
+    const write = (push: boolean) => {
+        const selected = mainCanvasView.selection?.items;
+        const hash = linkHash({
+            board: model.board.id,
+            camera: mainCanvasView.getCameraState(),
+            ...(selected?.length === 1 && { item: selected[0].id }),
+        });
+        if (hash === written) return;
+        written = hash;
+        if (push) history.pushState(null, "", hash);
+        else history.replaceState(null, "", hash);
+    };
+
+    const show = (link: DeepLink, fly: boolean) => {
+        // A link to another board is opened by app.ts as the page loads
+        if (link.board && link.board !== model.board.id) return;
+        const item = link.item ? model.getItem(link.item) : undefined;
+        const select = () => {
+            if (!item || !isEditableItem(item)) return;
+            appStore.getState().setActiveTool("select");
+            mainCanvasView.selection = createSelection([item], mainCanvasView.getCameraFrame());
+        };
+        const target = link.camera ? cameraTarget(link.camera) : item && mainCanvasView.getItemTarget(item);
+        if (!target) return select();
+        if (!fly) {
+            mainCanvasView.jumpTo(target);
+            return select();
+        }
+        restoring = true;
+        mainCanvasView.flyTo(target).then((arrived) => arrived && select());
+        restoring = false;
+    };
+
+    mainCanvasView.onFlight(async (arrived) => {
+        const push = !restoring;
+        if (push && flying === 0) write(false);
+        flying++;
+        await arrived;
+        if (--flying === 0 && push) write(true);
+    });
+
+    window.addEventListener("popstate", () => {
+        written = location.hash;
+        const link = parseLinkHash(location.hash);
+        if (link.board && link.board !== model.board.id) location.reload();
+        else show(link, true);
+    });
+
+    Promise.all([model.ready, mainCanvasView.ready]).then(() => {
+        show(parseLinkHash(location.hash), false);
+        setInterval(() => flying === 0 && write(false), HASH_UPDATE_MS);
+    });
+}
@@ -0,0 +1,95 @@
+import { Graphics, UPDATE_PRIORITY } from "pixi.js";
+import { CanvasView } from "../canvas/CanvasView";
+import { deepToWorld, toAnchor } from "../canvas/deepCoords";
+import { BlobNode, landmarkPath } from "../canvas/fractalLandmarks";
+import { CameraTarget, CanvasTool, colorPallet } from "../canvas/types";
+import { log2ToZoom, scaleZoom } from "../canvas/zoom";
+import { DrawingModel } from "../DrawingData/DrawingModel";
+
+/** Size of the minimap canvas, in CSS px. */
+const MINIMAP_PX = { width: 220, height: 160 };
+/** How many times further out than the main view the minimap looks. */
+const ZOOM_OUT = 32;
+/** Share of the screen a blob fills after its crumb is clicked. */
+const CRUMB_FILL = 0.9;
+
+/** The blob centered and filling the screen of `view`. */
+function blobTarget(node: BlobNode, view: CanvasView): CameraTarget {
+    const { width, height } = view.app.renderer;
+    const zoom = log2ToZoom(Math.log2((Math.min(width, height) * CRUMB_FILL) / (node.radius * 2)));
+    const c = deepToWorld(node.center);
+    return { x: c.x - node.radius, y: c.y - node.radius, width: node.radius * 2, height: node.radius * 2, zoom, center: toAnchor(node.center) };
+}
+
+/** Root blobs keep their id; the others are named by their level and their index in their parent. */
+const crumbLabel = (node: BlobNode) => (node.level === 0 ? node.id : `L${node.level}_${node.id.slice(node.id.lastIndexOf("_") + 1)}`);
+
+// A second view of the board, zoomed out around the main camera with the main view's rect drawn on
+// it, and a breadcrumb of the landmark blobs the main view is inside. Clicking the minimap flies the
+// main view there at its current zoom; clicking a crumb zooms out to that blob.
+export function initMinimap(model: DrawingModel, mainCanvasView: CanvasView) {
+    const host = document.querySelector(".minimap") as HTMLElement | null;
+    const canvasHost = host?.querySelector(".minimap-canvas") as HTMLElement | null;
+    const crumbs = host?.querySelector(".breadcrumb") as HTMLOListElement | null;
+    if (!host || !canvasHost || !crumbs) return;
+
+    const minimap = new CanvasView(canvasHost, model, { mainCanvas: false, notecards: false, ...MINIMAP_PX });
+    const jumpTool: CanvasTool = {
+        pointerDown: (e) => {
+            // Not a stroke on the main canvas underneath
+            e.stopPropagation();
+            if (e.button !== 0) return;
+            const { x, y } = minimap.getLocalCoordsFromEvent(e);
+            mainCanvasView.flyTo({ ...mainCanvasView.getCameraTarget(), center: toAnchor(minimap.screenToDeep(x, y)) });
+        },
+        pointerMove: () => {},
+        pointerUp: () => {},
+    };
+    minimap.canvasTool = jumpTool;
+
+    let path = "";
+    const showPath = (nodes: BlobNode[]) => {
+        const key = nodes.map((n) => n.id).join();
+        if (key === path) return;
+        path = key;
+        crumbs.replaceChildren(
+            ...nodes.map((node, i) => {
+                const li = document.createElement("li");
+                const button = document.createElement("button");
+                button.textContent = crumbLabel(node);
+                button.title = node.id;
+                if (i === nodes.length - 1) button.setAttribute("aria-current", "location");
+                button.addEventListener("click", () => mainCanvasView.flyTo(blobTarget(node, mainCanvasView)));
+                li.append(button);
+                return li;
+            })
+        );
+    };
+
+    Promise.all([minimap.ready, mainCanvasView.ready]).then(() => {
+        const viewRect = new Graphics();
+        minimap.app.stage.addChild(viewRect);
+
+        // Before the minimap draws, so it shows this frame's main camera
+        minimap.app.ticker.add(
+            () => {
+                minimap.jumpTo({ ...mainCanvasView.getCameraTarget(), zoom: scaleZoom(mainCanvasView.getZoomObj(), 1 / ZOOM_OUT) });
+
+                const frame = mainCanvasView.getCameraFrame();
+                const r = mainCanvasView.getFrameViewRect();
+                const [x0, y0] = minimap.frameToScreen(frame, [r.x, r.y]);
+                const [x1, y1] = minimap.frameToScreen(frame, [r.x + r.width, r.y + r.height]);
+                viewRect
+                    .clear()
+                    .rect(x0, y0, x1 - x0, y1 - y0)
+                    .stroke({ width: 2, color: colorPallet.driftwood });
+
+                const { width, height } = mainCanvasView.app.renderer;
+                const halfDiagonal = Math.hypot(width, height) / 2 / mainCanvasView.getZoom();
+                showPath(landmarkPath(mainCanvasView.fractalCtx, mainCanvasView.getCameraState().center, halfDiagonal));
+            },
+            undefined,
+            UPDATE_PRIORITY.HIGH
+        );
+    });
+}
@@ -1,4 +1,4 @@
-import { ActiveTool, activeToolKey, singleSubscribe, appStore } from "../appState";
+import { ActiveTool, activeToolKey, singleSubscribe, appStore, EraserMode } from "../appState";
 
 const getToolDataAttr = (el: HTMLElement): ActiveTool => {
     const tool = el.getAttribute("data-tool");
@@ -37,3 +37,38 @@ export function initPalletButtons() {
         button.addEventListener("pointerdown", handlePointerDown);
     });
 }
+
+const eraserModeLabels: Record<EraserMode, string> = {
+    stroke: "whole strokes",
+    partial: "partial",
+};
+
+// Toggles the eraser between whole-stroke and partial-segment erasing.
+export function initEraserModeButton() {
+    const btn = document.querySelector(".eraser-mode-btn") as HTMLButtonElement | null;
+    if (!btn) return;
+
+    singleSubscribe.eraserMode((mode) => {
+        btn.textContent = eraserModeLabels[mode];
+    });
+
+    btn.addEventListener("pointerdown", (e) => {
+        e.preventDefault();
+        const { eraserMode, setEraserMode } = appStore.getState();
+        setEraserMode(eraserMode === "stroke" ? "partial" : "stroke");
+    });
+}
+
+// Shows that the wormhole tool has a destination and is waiting for the portal click.
+export function initWormholeHint() {
+    const hint = document.querySelector(".wormhole-hint") as HTMLElement | null;
+
+    singleSubscribe.wormholeTarget((target) => {
+        if (hint) hint.hidden = !target;
+    });
+
+    // Leaving the tool abandons a half-made wormhole
+    singleSubscribe.activeTool((tool) => {
+        if (tool !== "wormhole") appStore.setState({ wormholeTarget: null });
+    });
+}
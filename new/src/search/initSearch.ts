@@ -0,0 +1,99 @@
+import { CanvasView } from "../canvas/CanvasView";
+import { DrawingModel } from "../DrawingData/DrawingModel";
+import { SearchResult, Snippet } from "../DrawingData/searchIndex";
+
+/** Results shown at most. */
+const MAX_RESULTS = 12;
+
+/** Snippet text with its matches wrapped in <mark>, built as nodes so card text is never parsed as HTML. */
+const renderSnippet = (el: HTMLElement, { text, highlights }: Snippet) => {
+    let at = 0;
+    for (const [start, end] of highlights) {
+        el.append(text.slice(at, start));
+        const mark = document.createElement("mark");
+        mark.textContent = text.slice(start, end);
+        el.append(mark);
+        at = end;
+    }
+    el.append(text.slice(at));
+};
+
+// The search box over card titles and content. Picking a result flies the main view to the card.
+export function initSearch(model: DrawingModel, mainCanvasView: CanvasView) {
+    const input = document.querySelector(".search-input") as HTMLInputElement | null;
+    const list = document.querySelector(".search-results") as HTMLUListElement | null;
+    if (!input || !list) return;
+
+    let results: SearchResult[] = [];
+    let active = 0;
+
+    const render = () => {
+        list.replaceChildren(
+            ...results.map((r, i) => {
+                const li = document.createElement("li");
+                li.classList.toggle("active", i === active);
+                const title = document.createElement("div");
+                title.classList.add("search-result-title");
+                renderSnippet(title, r.title);
+                const snippet = document.createElement("div");
+                snippet.classList.add("search-result-snippet");
+                renderSnippet(snippet, r.snippet);
+                li.append(title, snippet);
+                // pointerdown, before the input's blur hides the list
+                li.addEventListener("pointerdown", (e) => {
+                    e.preventDefault();
+                    pick(r);
+                });
+                return li;
+            })
+        );
+        list.hidden = results.length === 0 && input.value.trim() === "";
+        if (results.length === 0 && input.value.trim() !== "") {
+            const li = document.createElement("li");
+            li.classList.add("search-empty");
+            li.textContent = "No cards found";
+            list.append(li);
+        }
+    };
+
+    const update = () => {
+        results = model.searchCards(input.value, MAX_RESULTS);
+        active = 0;
+        render();
+    };
+
+    const pick = (result: SearchResult) => {
+        const card = model.store.getState().textCards[result.id];
+        if (!card) return;
+        list.hidden = true;
+        input.blur();
+        mainCanvasView.flyTo(mainCanvasView.getItemTarget(card));
+    };
+
+    input.addEventListener("input", update);
+    input.addEventListener("focus", update);
+    input.addEventListener("blur", () => (list.hidden = true));
+    input.addEventListener("keydown", (e) => {
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+            e.preventDefault();
+            if (results.length === 0) return;
+            active = (active + (e.key === "ArrowDown" ? 1 : results.length - 1)) % results.length;
+            render();
+        } else if (e.key === "Enter") {
+            if (results[active]) pick(results[active]);
+        } else if (e.key === "Escape") {
+            input.value = "";
+            input.blur();
+        }
+    });
+
+    // Results of another board mean nothing
+    model.store.subscribe(
+        (s) => s.board.id,
+        () => {
+            input.value = "";
+            results = [];
+            list.hidden = true;
+        }
+    );
+}
@@ -0,0 +1,110 @@
+// sync/RemotePresence.ts
+import { Container, Graphics, Text } from "pixi.js";
+import type { CanvasView } from "../canvas/CanvasView";
+import { fromAnchor } from "../canvas/deepCoords";
+import { getQuadItem, StrokeProperties } from "../canvas/types";
+import type { Presence } from "./protocol";
+
+/** Collaborators who have not sent presence for this long (ms) are hidden. */
+const STALE_MS = 10_000;
+
+type Peer = {
+    presence: Presence;
+    lastSeen: number;
+    cursor: Container;
+    /** Their stroke in progress, drawn in the world like our own. */
+    stroke: Graphics;
+};
+
+/** A stable, distinct color per client. */
+const peerColor = (clientId: string): number => {
+    let h = 0;
+    for (let i = 0; i < clientId.length; i++) h = (h * 31 + clientId.charCodeAt(i)) >>> 0;
+    // Fully saturated hue, darkened enough to read on the light background
+    const hue = (h % 360) / 60;
+    const x = 1 - Math.abs((hue % 2) - 1);
+    const [r, g, b] = [[1, x, 0], [x, 1, 0], [0, 1, x], [0, x, 1], [x, 0, 1], [1, 0, x]][Math.floor(hue)];
+    return (Math.round(r * 180) << 16) | (Math.round(g * 180) << 8) | Math.round(b * 180);
+};
+
+/** Other clients' cursors (screen space, above everything) and in-progress strokes (in the world). */
+export class RemotePresence {
+    private view: CanvasView;
+    private peers = new Map<string, Peer>();
+    private cursorLayer = new Container();
+    private tick = () => this.render();
+
+    constructor(view: CanvasView) {
+        this.view = view;
+        view.ready.then(() => {
+            if (this.cursorLayer.destroyed) return;
+            view.app.stage.addChild(this.cursorLayer);
+            view.app.ticker.add(this.tick);
+        });
+    }
+
+    update(clientId: string, presence: Presence): void {
+        let peer = this.peers.get(clientId);
+        if (!peer) {
+            const color = peerColor(clientId);
+            const cursor = new Container();
+            cursor.addChild(new Graphics().circle(0, 0, 5).fill({ color }).stroke({ width: 1.5, color: 0xffffff }));
+            const label = new Text({ text: "", style: { fontSize: 12, fill: color } });
+            label.position.set(8, 4);
+            cursor.addChild(label);
+            this.cursorLayer.addChild(cursor);
+            const stroke = new Graphics();
+            this.view.world.addChild(stroke);
+            peer = { presence, lastSeen: 0, cursor, stroke };
+            this.peers.set(clientId, peer);
+        }
+        peer.presence = presence;
+        peer.lastSeen = performance.now();
+        (peer.cursor.getChildAt(1) as Text).text = presence.name;
+    }
+
+    remove(clientId: string): void {
+        const peer = this.peers.get(clientId);
+        if (!peer) return;
+        peer.cursor.destroy({ children: true });
+        peer.stroke.destroy();
+        this.peers.delete(clientId);
+    }
+
+    clear(): void {
+        for (const id of [...this.peers.keys()]) this.remove(id);
+    }
+
+    /** Removes every cursor and stops drawing them. */
+    destroy(): void {
+        this.clear();
+        this.view.app.ticker?.remove(this.tick);
+        this.cursorLayer.destroy();
+    }
+
+    private render(): void {
+        const now = performance.now();
+        for (const [id, peer] of this.peers) {
+            if (now - peer.lastSeen > STALE_MS) {
+                this.remove(id);
+                continue;
+            }
+            const { cursor, stroke } = peer.presence;
+
+            peer.cursor.visible = !!cursor;
+            if (cursor) {
+                const origin = fromAnchor(cursor);
+                const [x, y] = this.view.frameToScreen({ origin, exp: origin.exp }, [0, 0]);
+                peer.cursor.position.set(x, y);
+            }
+
+            peer.stroke.visible = !!stroke && stroke.data.pts.length > 1;
+            if (stroke && peer.stroke.visible) {
+                const item = getQuadItem<StrokeProperties>({ id: `remote:${id}`, x: 0, y: 0, width: 0, height: 0, data: stroke.data });
+                this.view.drawStroke(peer.stroke, item);
+                const origin = fromAnchor(stroke.anchor);
+                this.view.placeGraphics(peer.stroke, { origin, exp: origin.exp });
+            }
+        }
+    }
+}
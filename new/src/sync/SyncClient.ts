@@ -0,0 +1,167 @@
+// sync/SyncClient.ts
+//
+// Keeps the open board in step with other clients through the relay in server/relay.mjs. Local
+// changes become stamped CRDT ops; remote ops that win are applied to the model. Each board is its
+// own room, and the client follows the model when it switches board.
+
+import type { CanvasView } from "../canvas/CanvasView";
+import { toAnchor } from "../canvas/deepCoords";
+import type { DrawingModel, ItemChange } from "../DrawingData/DrawingModel";
+import { ItemCrdt, ItemOp } from "./crdt";
+import type { ClientMessage, Presence, RelayMessage } from "./protocol";
+import { RemotePresence } from "./RemotePresence";
+
+/** Delay (ms) before reconnecting after the relay went away. */
+const RECONNECT_MS = 2000;
+/** How often (ms) our cursor and stroke in progress are sent, when they changed. */
+const PRESENCE_MS = 50;
+
+const stripStamp = ({ stamp, ...change }: ItemOp): ItemChange => change;
+
+export class SyncClient {
+    readonly clientId = crypto.randomUUID();
+    private url: string;
+    private model: DrawingModel;
+    private view: CanvasView;
+    private name: string;
+    private socket: WebSocket | null = null;
+    private crdt = new ItemCrdt(this.clientId);
+    private room: string;
+    private presence: RemotePresence;
+    /** Remote ops are applied one batch at a time, in the order they arrived. */
+    private applying = Promise.resolve();
+    /** Last pointer position on screen, or null when it left the window. */
+    private pointer: { x: number; y: number } | null = null;
+    private lastPresence = "";
+    private closed = false;
+    private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    /** Undoes what the constructor hooked up, see close. */
+    private teardown: (() => void)[] = [];
+
+    /**
+     * @param url The relay, e.g. ws://localhost:8787.
+     * @param name Shown next to our cursor on the other clients.
+     */
+    constructor(url: string, model: DrawingModel, view: CanvasView, name: string) {
+        this.url = url;
+        this.model = model;
+        this.view = view;
+        this.name = name;
+        this.room = model.board.id;
+        this.presence = new RemotePresence(view);
+
+        const onPointerMove = (e: PointerEvent) => (this.pointer = view.getLocalCoordsFromEvent(e));
+        const onPointerLeave = () => (this.pointer = null);
+        document.addEventListener("pointermove", onPointerMove);
+        document.addEventListener("pointerleave", onPointerLeave);
+        const presenceTimer = setInterval(() => this.sendPresence(), PRESENCE_MS);
+        this.teardown.push(
+            model.onLocalChanges((changes) => {
+                const ops = changes.map((c) => this.crdt.local(c));
+                this.send({ type: "ops", ops });
+            }),
+            model.store.subscribe(
+                (s) => s.board.id,
+                (id) => this.joinRoom(id)
+            ),
+            () => document.removeEventListener("pointermove", onPointerMove),
+            () => document.removeEventListener("pointerleave", onPointerLeave),
+            () => clearInterval(presenceTimer)
+        );
+
+        this.connect();
+    }
+
+    /** Leaves the room for good: the socket is closed and nothing is sent or applied any more. */
+    close(): void {
+        this.closed = true;
+        clearTimeout(this.reconnectTimer);
+        for (const undo of this.teardown) undo();
+        this.teardown = [];
+        const socket = this.socket;
+        this.socket = null;
+        socket?.close();
+        this.presence.destroy();
+    }
+
+    private connect(): void {
+        const socket = new WebSocket(this.url);
+        this.socket = socket;
+        socket.addEventListener("open", () => {
+            this.send({ type: "hello", room: this.room, clientId: this.clientId });
+            // Items we had before joining, then everything we know, so edits made offline reach the room
+            this.crdt.baseline(this.model.getSavedItems());
+            this.send({ type: "ops", ops: this.crdt.snapshot() });
+        });
+        socket.addEventListener("message", (e) => {
+            if (this.socket !== socket) return;
+            let msg: RelayMessage;
+            try {
+                msg = JSON.parse(e.data);
+            } catch {
+                return; // not from a relay we speak to
+            }
+            this.receive(msg);
+        });
+        socket.addEventListener("close", () => {
+            if (this.socket !== socket) return; // replaced by joinRoom, or closed
+            this.socket = null;
+            this.presence.clear();
+            this.reconnectTimer = setTimeout(() => this.connect(), RECONNECT_MS);
+        });
+    }
+
+    /** Leaves the current room for another board's, starting from a fresh replica. */
+    private joinRoom(room: string): void {
+        const old = this.socket;
+        this.socket = null;
+        old?.close();
+        this.presence.clear();
+        this.room = room;
+        this.crdt = new ItemCrdt(this.clientId);
+        this.applying = Promise.resolve();
+        this.connect();
+    }
+
+    private receive(msg: RelayMessage): void {
+        if (msg.type === "ops") {
+            const winners = this.crdt.receive(msg.ops);
+            if (winners.length === 0) return;
+            this.applying = this.applying
+                .then(() => this.model.applyRemoteChanges(winners.map(stripStamp)))
+                .catch((err) => console.error("SyncClient: applying remote ops failed", err));
+        } else if (msg.type === "presence") {
+            this.presence.update(msg.clientId, msg.presence);
+        } else if (msg.type === "leave") {
+            this.presence.remove(msg.clientId);
+        }
+    }
+
+    private sendPresence(): void {
+        const { drawState } = this.view;
+        const presence: Presence = {
+            name: this.name,
+            cursor: this.pointer ? toAnchor(this.view.screenToDeep(this.pointer.x, this.pointer.y)) : null,
+            stroke:
+                drawState.active && drawState.anchor
+                    ? {
+                          anchor: toAnchor(drawState.anchor),
+                          data: {
+                              type: "stroke-rect",
+                              pts: drawState.pts,
+                              ...(drawState.pressure && { pressure: drawState.pressure }),
+                              stroke: { width: drawState.width / this.view.pxPerUnit(drawState.anchor.exp), color: drawState.color },
+                          },
+                      }
+                    : null,
+        };
+        const json = JSON.stringify(presence);
+        if (json === this.lastPresence) return;
+        this.lastPresence = json;
+        this.send({ type: "presence", presence });
+    }
+
+    private send(msg: ClientMessage): void {
+        if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(msg));
+    }
+}
@@ -0,0 +1,133 @@
+// sync/TabSync.ts
+//
+// Keeps the tabs of this browser that have the same board open in step. They share the board's
+// IndexedDB database, so only each tab's in-memory state needs updating: every change one tab saves
+// is announced on a BroadcastChannel and applied by the others without writing it again.
+//
+// Writes are ordered with the stamps of crdt.ts, so tabs changing the same card at the same moment
+// settle on the same version. Items no tab has written since they were loaded have no stamp and lose
+// to any write. Each card write also carries the stamp of the write it replaced: a tab receiving a
+// change made without having seen its own latest edit of that card flags the card as in conflict.
+
+import type { CanvasView } from "../canvas/CanvasView";
+import type { DrawingModel, ItemChange } from "../DrawingData/DrawingModel";
+import type { CardConflict, CardText } from "../Notecard/notecardOverlay";
+import { docToHtml } from "../Notecard/richText";
+import { compareStamps, ItemOp, Stamp } from "./crdt";
+
+/** A change, its stamp and, for cards, the stamp of the write it replaced. */
+type TabOp = ItemOp & { base?: Stamp };
+
+type TabMessage =
+    /** A tab opened the board; the others answer with the stamps of their writes. */
+    | { type: "hello"; tabId: string }
+    | { type: "stamps"; to: string; stamps: [string, Stamp][] }
+    | { type: "ops"; tabId: string; at: number; ops: TabOp[] };
+
+const changeId = (c: ItemChange) => (c.type === "put" ? c.item.id : c.id);
+
+const sameText = (a: CardText, b: CardText) => a.title === b.title && docToHtml(a.doc) === docToHtml(b.doc);
+
+export class TabSync {
+    readonly tabId = crypto.randomUUID();
+    private model: DrawingModel;
+    private view: CanvasView;
+    private channel: BroadcastChannel | null = null;
+    private clock = 0;
+    /** Stamp of the latest write per item id, from any tab, since the board was opened. */
+    private stamps = new Map<string, Stamp>();
+    /** Changes from other tabs are applied one batch at a time, in the order they arrived. */
+    private applying = Promise.resolve();
+
+    constructor(model: DrawingModel, view: CanvasView) {
+        this.model = model;
+        this.view = view;
+
+        model.onLocalChanges((changes) => {
+            const ops = changes.map((change): TabOp => {
+                const id = changeId(change);
+                const base = this.stamps.get(id);
+                const stamp = { t: ++this.clock, c: this.tabId };
+                this.stamps.set(id, stamp);
+                return { ...change, stamp, ...(base && change.table === "textCards" && { base }) };
+            });
+            this.post({ type: "ops", tabId: this.tabId, at: Date.now(), ops });
+        });
+        model.store.subscribe(
+            (s) => s.board.id,
+            () => this.open()
+        );
+        this.open();
+    }
+
+    /** Joins the channel of the open board. */
+    private open(): void {
+        this.channel?.close();
+        this.stamps.clear();
+        this.applying = Promise.resolve();
+        this.channel = new BroadcastChannel(`board:${this.model.board.id}`);
+        this.channel.onmessage = (e) => this.receive(e.data as TabMessage);
+        this.post({ type: "hello", tabId: this.tabId });
+    }
+
+    private post(msg: TabMessage): void {
+        this.channel?.postMessage(msg);
+    }
+
+    private receive(msg: TabMessage): void {
+        if (msg.type === "hello") {
+            this.post({ type: "stamps", to: msg.tabId, stamps: [...this.stamps] });
+        } else if (msg.type === "stamps") {
+            if (msg.to !== this.tabId) return;
+            for (const [id, stamp] of msg.stamps) this.record(id, stamp);
+        } else if (msg.type === "ops") {
+            const winners: ItemChange[] = [];
+            const conflicts: [string, CardConflict][] = [];
+            for (const { stamp, base, ...change } of msg.ops) {
+                const id = changeId(change);
+                const known = this.stamps.get(id);
+                const conflict = this.detectConflict(change, known, base, `tab ${msg.tabId.slice(0, 4)}`, msg.at);
+                if (conflict) conflicts.push([id, conflict]);
+                if (this.record(id, stamp)) winners.push(change);
+            }
+            if (winners.length === 0 && conflicts.length === 0) return;
+            this.applying = this.applying
+                .then(() => this.model.applyRemoteChanges(winners, { persist: false }))
+                .then(() => {
+                    for (const [id, conflict] of conflicts) this.view.overlay?.markConflict(id, conflict);
+                })
+                .catch((err) => console.error("TabSync: applying changes from another tab failed", err));
+        }
+    }
+
+    /** Adopts a write's stamp if it is the latest for its item. Returns whether it was. */
+    private record(id: string, stamp: Stamp): boolean {
+        this.clock = Math.max(this.clock, stamp.t);
+        const known = this.stamps.get(id);
+        if (known && compareStamps(stamp, known) <= 0) return false;
+        this.stamps.set(id, stamp);
+        return true;
+    }
+
+    /**
+     * A card edit from another tab conflicts when that tab had not seen this tab's latest edit of the
+     * card, or when the user is typing in it here. Null if there is nothing to choose between.
+     */
+    private detectConflict(change: ItemChange, known: Stamp | undefined, base: Stamp | undefined, from: string, at: number): CardConflict | null {
+        if (change.type !== "put" || change.item.data.type !== "text-card") return null;
+        const id = change.item.id;
+        const card = this.model.store.getState().textCards[id];
+        if (!card) return null;
+
+        const overlay = this.view.overlay;
+        const shown = overlay?.isEditing(id) ? overlay.shownText(id) : null;
+        const saved = { title: card.data.title, doc: card.data.doc };
+        const typing = !!shown && !sameText(shown, saved);
+        const concurrent = known?.c === this.tabId && (!base || compareStamps(base, known) !== 0);
+        if (!typing && !concurrent) return null;
+
+        const mine = shown ?? saved;
+        const theirs = { title: change.item.data.title, doc: change.item.data.doc };
+        return sameText(mine, theirs) ? null : { from, at, mine, theirs };
+    }
+}
@@ -0,0 +1,71 @@
+// sync/crdt.ts
+//
+// Conflict-free merging of item changes between clients. Every item is a last-writer-wins register
+// keyed by its id, and a delete is a tombstone in the same register, so a later put (an undo) can
+// bring the item back. Strokes only ever get a put when they are created or moved, so in practice
+// they behave as an add-only set with tombstones; cards get one on every edit, making the card table
+// a last-writer-wins map. Writes are ordered by Lamport stamps, ties broken by client id, so every
+// replica that has seen the same operations holds the same items, whatever order they arrived in.
+
+import type { ItemChange } from "../DrawingData/DrawingModel";
+
+/** Lamport time and the client that wrote at it. */
+export type Stamp = { t: number; c: string };
+
+/** An item change with the stamp it was written at. */
+export type ItemOp = ItemChange & { stamp: Stamp };
+
+export const compareStamps = (a: Stamp, b: Stamp): number => a.t - b.t || (a.c < b.c ? -1 : a.c > b.c ? 1 : 0);
+
+const opId = (op: ItemChange) => (op.type === "put" ? op.item.id : op.id);
+
+export class ItemCrdt {
+    readonly clientId: string;
+    private clock = 0;
+    /** The latest write per item id, put or tombstone. */
+    private writes = new Map<string, ItemOp>();
+
+    constructor(clientId: string) {
+        this.clientId = clientId;
+    }
+
+    /**
+     * Records items this replica already had before it joined, at time 0: anything any other client
+     * has written since wins over them, and items only this client has are added for everyone.
+     */
+    baseline(changes: ItemChange[]): ItemOp[] {
+        const ops: ItemOp[] = [];
+        for (const change of changes) {
+            if (this.writes.has(opId(change))) continue;
+            const op = { ...change, stamp: { t: 0, c: this.clientId } };
+            this.writes.set(opId(change), op);
+            ops.push(op);
+        }
+        return ops;
+    }
+
+    /** Stamps a change made on this client. It always wins over everything this replica has seen. */
+    local(change: ItemChange): ItemOp {
+        const op = { ...change, stamp: { t: ++this.clock, c: this.clientId } };
+        this.writes.set(opId(change), op);
+        return op;
+    }
+
+    /** The remote ops that win over this replica's state, in order; they are recorded and should be applied. */
+    receive(ops: ItemOp[]): ItemOp[] {
+        const winners: ItemOp[] = [];
+        for (const op of ops) {
+            this.clock = Math.max(this.clock, op.stamp.t);
+            const current = this.writes.get(opId(op));
+            if (current && compareStamps(op.stamp, current.stamp) <= 0) continue;
+            this.writes.set(opId(op), op);
+            winners.push(op);
+        }
+        return winners;
+    }
+
+    /** The latest write of every item this replica knows, e.g. to bring a relay up to date after reconnecting. */
+    snapshot(): ItemOp[] {
+        return [...this.writes.values()];
+    }
+}
@@ -0,0 +1,30 @@
+// sync/protocol.ts
+//
+// Messages between SyncClient and the relay (server/relay.mjs). All are JSON. The relay forwards
+// ops and presence to the other clients in the same room, and keeps the latest op per item id so a
+// client joining later gets the room's current state.
+
+import type { Anchor } from "../canvas/deepCoords";
+import type { StrokeData } from "../canvas/types";
+import type { ItemOp } from "./crdt";
+
+/** Where a collaborator is and what they are drawing right now. Not stored by the relay. */
+export type Presence = {
+    name: string;
+    /** Pointer position, or null when it is off the canvas. */
+    cursor: Anchor | null;
+    /** The stroke being drawn, in its anchor's units, or null. */
+    stroke: { anchor: Anchor; data: StrokeData } | null;
+};
+
+export type ClientMessage =
+    /** Joins a room, one per board. The relay answers with the room's ops. */
+    | { type: "hello"; room: string; clientId: string }
+    | { type: "ops"; ops: ItemOp[] }
+    | { type: "presence"; presence: Presence };
+
+export type RelayMessage =
+    | { type: "ops"; ops: ItemOp[] }
+    | { type: "presence"; clientId: string; presence: Presence }
+    /** A client disconnected: drop its cursor. */
+    | { type: "leave"; clientId: string };
@@ -0,0 +1,110 @@
+// The binary export must give back exactly the records it was given: strokes on and off the point
+// grid, pressure in float32 and float64, with and without their optional fields, gzipped or not.
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { JSDOM } from "jsdom";
+import { POINT_GRID_BITS } from "../src/canvas/strokePipeline";
+import type { Point, StrokeProperties, TextCardProperties } from "../src/canvas/types";
+import { decodeDrawingFile, encodeDrawing } from "../src/DrawingData/binaryFormat";
+import { DRAWING_FORMAT_VERSION, migrateDrawingData } from "../src/DrawingData/migrations";
+import { textToDoc } from "../src/Notecard/richText";
+
+const { window } = new JSDOM("");
+Object.assign(globalThis, { DOMParser: window.DOMParser, Node: window.Node });
+
+const GRID = Math.pow(2, POINT_GRID_BITS);
+
+function stroke(id: string, pts: Point[], extra: Partial<StrokeProperties> & { pressure?: number[] } = {}): StrokeProperties {
+    const { pressure, ...rest } = extra;
+    return {
+        id,
+        x: -1.5,
+        y: 2.25,
+        width: 10,
+        height: 7,
+        ...rest,
+        data: { type: "stroke-rect", pts, ...(pressure && { pressure }), stroke: { width: 2.5, color: 0x3366ff } },
+    };
+}
+
+const onGrid: Point[] = [
+    [0, 0],
+    [3 / GRID, -5 / GRID],
+    [-1024 + 1 / GRID, 77],
+    [12.5, -0.25],
+];
+const offGrid: Point[] = [
+    [0.1, 1 / 3],
+    [-0, 1e-300],
+    [Math.PI * 1e12, -Number.MAX_SAFE_INTEGER],
+];
+
+const STROKES: StrokeProperties[] = [
+    stroke("grid", onGrid),
+    stroke("float", offGrid),
+    stroke("pressure32", onGrid, { pressure: onGrid.map((_, i) => Math.fround(0.1 + i * 0.2)) }),
+    stroke("pressure64", offGrid, { pressure: offGrid.map((_, i) => 0.1 + i * 0.2) }),
+    stroke("anchored", onGrid, { anchor: { x: "-123456789012345678901234567890", y: "42", exp: -200 }, createdAt: 1_700_000_000_123.5 }),
+    stroke("anchor only", offGrid, { anchor: { x: "0", y: "-1", exp: 230 } }),
+    stroke("createdAt only", onGrid, { createdAt: 0 }),
+    { ...stroke("other style", [[1, 1]]), data: { type: "stroke-rect", pts: [[1, 1]], stroke: { width: 0.001, color: 0 } } },
+];
+
+const CARDS: TextCardProperties[] = [
+    {
+        id: "card",
+        x: 0,
+        y: 0,
+        width: 200,
+        height: 100,
+        anchor: { x: "5", y: "-5", exp: 12 },
+        createdAt: 1,
+        data: { type: "text-card", zoom: { zoomExp: 12, localScale: 1.25 }, title: "Ünïcode ✓", doc: textToDoc("line\nother"), htmlString: "<p>line</p><p>other</p>" },
+    },
+];
+
+test("strokes and cards round-trip exactly", async () => {
+    const bytes = await encodeDrawing({ strokes: STROKES, textCards: CARDS, wormholes: [] });
+    assert.deepEqual(await decodeDrawingFile(bytes), { formatVersion: DRAWING_FORMAT_VERSION, strokes: STROKES, textCards: CARDS, wormholes: [] });
+});
+
+test("points on the grid are stored as small steps, others as float64", async () => {
+    const size = async (pts: Point[]) => (await encodeDrawing({ strokes: [stroke("s", pts)] })).length;
+    const many = (n: number, f: (i: number) => number): Point[] => Array.from({ length: n }, (_, i) => [f(i), f(i + 1)]);
+    // A quarter of a float64 pair per point, at most
+    assert.ok((await size(many(1000, (i) => i / GRID))) < 1000 * 4);
+    assert.ok((await size(many(1000, (i) => i / 3))) > 1000 * 16);
+});
+
+test("a gzipped file is recognized and round-trips", async () => {
+    const tables = { strokes: STROKES, textCards: CARDS };
+    const plain = await encodeDrawing(tables);
+    const gzipped = await encodeDrawing(tables, { gzip: true });
+    assert.deepEqual([gzipped[0], gzipped[1]], [0x1f, 0x8b]);
+    assert.ok(gzipped.length < plain.length);
+    assert.deepEqual(await decodeDrawingFile(gzipped), await decodeDrawingFile(plain));
+});
+
+test("a stroke with more or fewer pressure values than points is read as it is and rejected on import", async () => {
+    const strokes = [
+        stroke("too many", onGrid.slice(0, 2), { pressure: [0.5, 0.5, 0.5] }),
+        stroke("too few", offGrid, { pressure: [0.25] }),
+        stroke("after them", onGrid, { pressure: onGrid.map(() => 0.75) }),
+    ];
+    const decoded = await decodeDrawingFile(await encodeDrawing({ strokes, textCards: [] }));
+    assert.deepEqual(decoded, { formatVersion: DRAWING_FORMAT_VERSION, strokes, textCards: [] });
+
+    const { data, rejected } = migrateDrawingData(decoded);
+    assert.deepEqual(
+        rejected.map((r) => [r.id, r.reason]),
+        [
+            ["too many", "pressure must be one number per point"],
+            ["too few", "pressure must be one number per point"],
+        ]
+    );
+    assert.deepEqual(
+        data.strokes.map((s) => s.id),
+        ["after them"]
+    );
+});
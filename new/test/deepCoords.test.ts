@@ -0,0 +1,134 @@
+// Drawing at zoomExp ±200: stroke anchors, frames and screen positions must round-trip exactly
+// enough to draw with, and the coarse world bboxes must put strokes in the views that show them and
+// leave out the ones they do not.
+//
+// The camera is CanvasView's own: a view is made without starting Pixi, and moved with jumpTo.
+
+import "fake-indexeddb/auto";
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Container } from "pixi.js";
+import { CanvasView } from "../src/canvas/CanvasView";
+import { deepDiff, deepRescale, DeepPoint, Frame, fromAnchor, fromFrame, itemFrame, SUBPIXEL_BITS, toAnchor } from "../src/canvas/deepCoords";
+import { BBox, isStroke, Point, QuadItem, StrokeData, StrokeProperties } from "../src/canvas/types";
+import { DrawingModel } from "../src/DrawingData/DrawingModel";
+
+const SCREEN = { width: 800, height: 600 };
+const LOCAL_SCALE = 1.5;
+
+/** A CanvasView with only its camera, centered on `center` at zoom 2^zoomExp · LOCAL_SCALE. */
+function cameraView(center: DeepPoint, zoomExp: number): CanvasView {
+    const view: CanvasView = Object.create(CanvasView.prototype);
+    Object.assign(view, { world: new Container(), app: { renderer: SCREEN } });
+    view.jumpTo({ x: 0, y: 0, width: 0, height: 0, zoom: { zoomExp, localScale: LOCAL_SCALE }, center: toAnchor(center) });
+    return view;
+}
+
+const screenCenter = (view: CanvasView) => view.screenToDeep(SCREEN.width / 2, SCREEN.height / 2);
+
+const intersects = (a: BBox, b: BBox) => a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+/** A point away from the world origin, given to the last bit at `exp`. */
+const deepPoint = (exp: number): DeepPoint => ({ x: (3n << BigInt(Math.max(exp, 0))) + 12345n, y: -(5n << BigInt(Math.max(exp, 0))) - 678n, exp });
+
+const SCREEN_PTS: Point[] = [
+    [380, 290],
+    [400, 320],
+    [455.25, 301.5],
+    [470, 260],
+];
+
+/** Draws through SCREEN_PTS moved `dx` px right on `view`, anchored as DrawTool anchors a stroke. */
+async function drawOn(model: DrawingModel, view: CanvasView, color: number, dx = 0): Promise<QuadItem<StrokeProperties>> {
+    const { zoomExp } = view.getZoomObj();
+    const screenPts = SCREEN_PTS.map(([x, y]): Point => [x + dx, y]);
+    const anchor = deepRescale(view.screenToDeep(...screenPts[0]), zoomExp);
+    const pts = screenPts.map(([x, y]) => view.screenToFrame({ origin: anchor, exp: zoomExp }, x, y));
+    await model.addStroke({ type: "stroke-rect", pts, stroke: { width: 2, color } } as StrokeData, anchor);
+    return model.getAllItems().filter(isStroke).find((s) => s.data.stroke.color === color)!;
+}
+
+/** Strokes whose bbox meets the view rect, of the quadtree's candidates for it. */
+function shownIn(model: DrawingModel, view: CanvasView): Set<string> {
+    const rect = view.getViewRect();
+    return new Set(model.getVisibleItems(rect).filter((s) => isStroke(s) && intersects(s, rect)).map((s) => s.id));
+}
+
+/** Where the view puts each point of a stroke on screen. */
+const onScreen = (view: CanvasView, stroke: QuadItem<StrokeProperties>) => stroke.data.pts.map((p) => view.frameToScreen(itemFrame(stroke), p));
+
+const isOnScreen = ([x, y]: Point) => x >= 0 && x <= SCREEN.width && y >= 0 && y <= SCREEN.height;
+
+for (const zoomExp of [200, -200]) {
+    test(`anchor → frame → screen → anchor round-trips at zoomExp ${zoomExp}`, () => {
+        const view = cameraView(deepPoint(zoomExp + SUBPIXEL_BITS), zoomExp);
+        // As DrawTool anchors a stroke: where it starts, on the grid of the current zoom
+        const anchor = toAnchor(deepRescale(view.screenToDeep(...SCREEN_PTS[0]), zoomExp));
+        const frame = itemFrame({ anchor: JSON.parse(JSON.stringify(anchor)) });
+        assert.deepEqual(fromAnchor(anchor), frame.origin);
+        assert.equal(frame.exp, zoomExp);
+
+        const locals = SCREEN_PTS.map(([x, y]) => view.screenToFrame(frame, x, y));
+        SCREEN_PTS.forEach(([x, y], i) => {
+            const local = locals[i];
+            // A stroke's own coordinates stay small, whatever the depth
+            assert.ok(Math.abs(local[0]) < SCREEN.width && Math.abs(local[1]) < SCREEN.height, `local point ${local}`);
+            const [sx, sy] = view.frameToScreen(frame, local);
+            assert.ok(Math.abs(sx - x) < 1e-6 && Math.abs(sy - y) < 1e-6, `(${x}, ${y}) came back as (${sx}, ${sy})`);
+
+            // Back to a deep point, on a grid fine enough not to round it
+            const fine: Frame = { origin: deepRescale(frame.origin, zoomExp + SUBPIXEL_BITS), exp: zoomExp };
+            const drift = deepDiff(fromFrame(fine, local), view.screenToDeep(x, y), zoomExp);
+            assert.ok(Math.abs(drift.x) < 1e-6 && Math.abs(drift.y) < 1e-6, `drift ${drift.x}, ${drift.y}`);
+        });
+
+        // Panning moves the stroke on screen by exactly as much
+        view.panBy(37.5, -12.25);
+        SCREEN_PTS.forEach(([x, y], i) => {
+            const [sx, sy] = view.frameToScreen(frame, locals[i]);
+            assert.ok(Math.abs(sx - x - 37.5) < 1e-6 && Math.abs(sy - y + 12.25) < 1e-6, `(${x}, ${y}) panned to (${sx}, ${sy})`);
+        });
+        // and zooming keeps the point under the pointer where it is
+        const [px, py] = view.frameToScreen(frame, locals[2]);
+        view.zoomAbout(px, py, 2);
+        const [zx, zy] = view.frameToScreen(frame, locals[2]);
+        assert.ok(Math.abs(zx - px) < 1e-6 && Math.abs(zy - py) < 1e-6, `pivot moved from (${px}, ${py}) to (${zx}, ${zy})`);
+    });
+
+    test(`views at zoomExp ${zoomExp} show the strokes on screen and leave out the others`, async () => {
+        const model = new DrawingModel({ id: `deep${zoomExp}`, name: "deep", dbName: `deep${zoomExp}`, seed: 1, camera: null, createdAt: 0 });
+        await model.ready;
+        const view = cameraView(deepPoint(zoomExp + SUBPIXEL_BITS), zoomExp);
+
+        const here = await drawOn(model, view, 0x000001);
+        // A detail 2^40 times smaller, in the middle of the screen
+        const detail = await drawOn(model, cameraView(screenCenter(view), zoomExp + 40), 0x000002);
+        // Three screens to the right, at the same depth and deeper
+        const beside = await drawOn(model, view, 0x000003, SCREEN.width * 3);
+        const besideDetail = await drawOn(model, cameraView(view.screenToDeep(SCREEN.width * 3.5, SCREEN.height / 2), zoomExp + 40), 0x000004);
+        // Far away at a depth 2^160 times coarser, beyond what float world coordinates round together
+        const coarse = await drawOn(model, cameraView(screenCenter(view), zoomExp - 160), 0x000005, SCREEN.width * 3);
+
+        for (const stroke of [here, detail]) {
+            for (const p of onScreen(view, stroke)) assert.ok(isOnScreen(p), `point drawn at ${p}`);
+        }
+        for (const stroke of [beside, besideDetail]) {
+            for (const [x] of onScreen(view, stroke)) assert.ok(x > SCREEN.width, `point drawn at x = ${x}`);
+        }
+
+        const shown = shownIn(model, view);
+        assert.ok(shown.has(here.id) && shown.has(detail.id));
+        assert.ok(!shown.has(coarse.id));
+        // At +200 the padded world rect still meets the strokes beside the view (floats cannot tell
+        // screens apart there), which is why they are placed in their own frames above
+        if (zoomExp < 0) assert.deepEqual(shown, new Set([here.id, detail.id]));
+
+        // A view a thousand times further out shows all but the coarse one
+        const outer = cameraView(screenCenter(view), zoomExp - 10);
+        assert.deepEqual(shownIn(model, outer), new Set([here.id, detail.id, beside.id, besideDetail.id]));
+        for (const stroke of [here, detail, beside, besideDetail]) {
+            for (const p of onScreen(outer, stroke)) assert.ok(isOnScreen(p), `point drawn at ${p}`);
+        }
+        for (const [x] of onScreen(outer, coarse)) assert.ok(x > SCREEN.width, `point drawn at x = ${x}`);
+    });
+}
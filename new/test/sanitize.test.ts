@@ -0,0 +1,167 @@
+// Known XSS vectors through the card sanitizer: whatever a file, a paste or another client sends,
+// what is kept must parse to allowed tags and attributes only, and every link kept must open as
+// http(s), mailto or a link within the page, as a browser reads it.
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { JSDOM } from "jsdom";
+import { RichDoc, safeHref } from "../src/Notecard/richText";
+import { sanitizeCardContent, sanitizeDoc, sanitizeHtml } from "../src/Notecard/sanitize";
+
+const { window } = new JSDOM("");
+Object.assign(globalThis, { DOMParser: window.DOMParser, Node: window.Node });
+
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+const BASE = "https://app.example/board";
+
+/** The scheme a browser follows `href` with, relative to the page. */
+const protocolOf = (href: string) => new URL(href, BASE).protocol;
+
+const SCRIPT_HREFS = [
+    "javascript:alert(1)",
+    "JaVaScRiPt:alert(1)",
+    " javascript:alert(1)",
+    "\tjavascript:alert(1)",
+    "java\tscript:alert(1)",
+    "jav\nascript:alert(1)",
+    "java\rscript:alert(1)",
+    "\x01javascript:alert(1)",
+    "\x00javascript:alert(1)",
+    "javascript\x7f:alert(1)",
+    "\u00a0javascript:alert(1)",
+    "javascript&#58;alert(1)",
+    "data:text/html,<script>alert(1)</script>",
+    "data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==",
+    "vbscript:msgbox(1)",
+    "livescript:alert(1)",
+    "file:///etc/passwd",
+];
+
+const KEPT_HREFS = ["https://example.com/a?b=c#d", "http://example.com", "HTTPS://EXAMPLE.COM", "mailto:someone@example.com", "#section", "/board/other", "notes/page.html", "//example.com/path"];
+
+test("script links are refused and safe ones kept", () => {
+    for (const href of SCRIPT_HREFS) {
+        const kept = safeHref(href);
+        // Some, like "javascript&#58;" or one behind a no-break space, are harmless relative paths
+        if (kept !== null) assert.ok(SAFE_PROTOCOLS.includes(protocolOf(kept)), `${JSON.stringify(href)} kept as ${JSON.stringify(kept)}`);
+    }
+    for (const href of SCRIPT_HREFS.filter((href) => !href.includes("&#58;") && !href.startsWith("\u00a0"))) {
+        assert.equal(safeHref(href), null, JSON.stringify(href));
+    }
+    for (const href of KEPT_HREFS) {
+        assert.equal(safeHref(href), href);
+        assert.ok(SAFE_PROTOCOLS.includes(protocolOf(href)));
+    }
+});
+
+const VECTORS = [
+    `<script>alert(1)</script>`,
+    `<SCRIPT SRC=https://evil.example/x.js></SCRIPT>`,
+    `<img src=x onerror=alert(1)>`,
+    `<svg onload=alert(1)><circle r=1 /></svg>`,
+    `<svg><script>alert(1)</script></svg>`,
+    `<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>`,
+    `<iframe src="javascript:alert(1)"></iframe>`,
+    `<iframe srcdoc="<script>alert(1)</script>"></iframe>`,
+    `<object data="data:text/html,<script>alert(1)</script>"></object>`,
+    `<embed src="javascript:alert(1)">`,
+    `<body onload=alert(1)>text`,
+    `<p onclick="alert(1)">click</p>`,
+    `<div onmouseover=alert(1) style="position:fixed;inset:0">cover</div>`,
+    `<span style="background:url(javascript:alert(1))">styled</span>`,
+    `<a href="javascript:alert(1)">link</a>`,
+    `<a href="java\tscript:alert(1)">tab</a>`,
+    `<a href="jav&#x0A;ascript:alert(1)">newline</a>`,
+    `<a href="&#x01;javascript:alert(1)">control</a>`,
+    `<a href=" JAVASCRIPT:alert(1)">space</a>`,
+    `<a href="data:text/html,<script>alert(1)</script>">data</a>`,
+    `<a href="vbscript:msgbox(1)">vb</a>`,
+    `<a href="https://example.com" onclick="alert(1)" target="_blank">extra attributes</a>`,
+    `<a xlink:href="javascript:alert(1)">xlink</a>`,
+    `<form action="javascript:alert(1)"><button>go</button></form>`,
+    `<input type="image" src=x onerror=alert(1)>`,
+    `<input type="checkbox" onfocus=alert(1) autofocus>`,
+    `<details open ontoggle=alert(1)>`,
+    `<video><source onerror=alert(1)></video>`,
+    `<meta http-equiv="refresh" content="0;url=javascript:alert(1)">`,
+    `<base href="javascript:alert(1)//">`,
+    `<link rel=stylesheet href="https://evil.example/x.css">`,
+    `<style>@import "https://evil.example/x.css";</style>`,
+    `<template><img src=x onerror=alert(1)></template>`,
+    `<noscript><p title="</noscript><img src=x onerror=alert(1)>">`,
+    `<x onclick=alert(1)>custom element</x>`,
+    `<ul class="checklist x" onclick=alert(1)><li data-checked="javascript:alert(1)">item</li></ul>`,
+    `<p><b><i><u><a href="javascript:alert(1)"><img src=x onerror=alert(1)></a></u></i></b></p>`,
+    `<scr<script>ipt>alert(1)</scr</script>ipt>`,
+];
+
+/** The reason `el` should not have survived sanitizing, or null. */
+function violation(el: Element): string | null {
+    const tag = el.tagName.toLowerCase();
+    const allowed = ["p", "div", "span", "br", "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "li", "input", "blockquote", "pre", "a", "strong", "b", "em", "i", "u", "s", "strike", "del", "code", "kbd"];
+    if (!allowed.includes(tag)) return `<${tag}>`;
+    for (const { name, value } of Array.from(el.attributes)) {
+        if (name.startsWith("on") || name === "style" || name === "src") return `${name} on <${tag}>`;
+        if (name === "href" && !SAFE_PROTOCOLS.includes(protocolOf(value))) return `href=${JSON.stringify(value)}`;
+    }
+    if (tag === "input" && el.getAttribute("type") !== "checkbox") return `<input type=${el.getAttribute("type")}>`;
+    return null;
+}
+
+test("sanitizeHtml leaves nothing of a known XSS vector that could run", () => {
+    for (const html of VECTORS) {
+        const { value, removed } = sanitizeHtml(html);
+        assert.ok(removed.length > 0, `nothing reported for ${html}`);
+        const body = new window.DOMParser().parseFromString(value, "text/html").body;
+        for (const el of Array.from(body.querySelectorAll("*"))) {
+            assert.equal(violation(el), null, `${html} → ${value}`);
+        }
+        // Sanitized HTML parses back to itself, and is left as it is
+        assert.equal(body.innerHTML, value);
+        assert.deepEqual(sanitizeHtml(value), { value, removed: [] });
+    }
+});
+
+test("sanitizeHtml keeps the text of unwrapped elements and drops that of script", () => {
+    assert.equal(sanitizeHtml(`<p onclick="alert(1)">click</p>`).value, "<p>click</p>");
+    assert.equal(sanitizeHtml(`<x onclick=alert(1)>custom element</x>`).value, "custom element");
+    assert.equal(sanitizeHtml(`<a href="javascript:alert(1)">link</a>`).value, "<a>link</a>");
+    assert.equal(sanitizeHtml(`<a href="https://example.com" onclick="alert(1)">ok</a>`).value, `<a href="https://example.com">ok</a>`);
+    assert.equal(sanitizeHtml(`before<script>alert(1)</script>after`).value, "beforeafter");
+    assert.equal(sanitizeHtml(`a<!--<img src=x onerror=alert(1)>-->b`).value, "ab");
+    assert.deepEqual(sanitizeHtml(`<img src=x onerror=alert(1)>`).removed, ["<img> element"]);
+});
+
+test("content made only of allowed markup is unchanged", () => {
+    const html = `<h2>Title</h2><p><strong>bold</strong> <em>it</em> <a href="https://example.com">link</a></p><ul class="checklist"><li data-checked="true">done</li></ul><pre><code>x &lt; y</code></pre>`;
+    assert.deepEqual(sanitizeHtml(html), { value: html, removed: [] });
+});
+
+const linkDoc = (hrefs: string[]): RichDoc => ({
+    blocks: [{ type: "paragraph", content: hrefs.map((href, i) => ({ text: `link ${i}`, marks: ["bold"], href })) }],
+});
+
+test("sanitizeDoc unlinks script links and keeps their text", () => {
+    const { value, removed } = sanitizeDoc(linkDoc([...SCRIPT_HREFS, ...KEPT_HREFS]));
+    const runs = value.blocks[0].content;
+    assert.equal(runs.length, SCRIPT_HREFS.length + KEPT_HREFS.length);
+    runs.forEach((run, i) => {
+        assert.equal(run.text, `link ${i}`);
+        assert.deepEqual(run.marks, ["bold"]);
+        if (run.href !== undefined) assert.ok(SAFE_PROTOCOLS.includes(protocolOf(run.href)), `${JSON.stringify(run.href)}`);
+    });
+    assert.deepEqual(runs.slice(SCRIPT_HREFS.length).map((run) => run.href), KEPT_HREFS);
+    assert.ok(removed.length >= SCRIPT_HREFS.length - 2);
+});
+
+test("sanitizeCardContent renders the HTML again from the cleaned document", () => {
+    const data = {
+        doc: linkDoc(["java\tscript:alert(1)", "https://example.com"]),
+        htmlString: `<p><img src=x onerror=alert(1)><a href="javascript:alert(1)">link 0</a></p>`,
+    };
+    const removed = sanitizeCardContent(data);
+    assert.deepEqual(removed, [`link to ${"java\tscript:alert(1)"}`]);
+    assert.ok(!data.htmlString.includes("onerror") && !data.htmlString.includes("script:"), data.htmlString);
+    assert.ok(data.htmlString.includes(`href="https://example.com"`));
+    assert.deepEqual(sanitizeCardContent(data), []);
+});
@@ -0,0 +1,214 @@
+// Two clients editing the same item through a local relay (server/relay.mjs), each with its own
+// ItemCrdt as SyncClient has. Concurrent writes must settle on the same winner in both replicas and
+// in the relay, whichever reaches the relay first, and a client joining later must get that state.
+// Then SyncClient itself, applying what the room sends to a DrawingModel.
+
+import "fake-indexeddb/auto";
+import assert from "node:assert/strict";
+import { AddressInfo } from "node:net";
+import { after, before, mock, test } from "node:test";
+import { JSDOM } from "jsdom";
+import { Container } from "pixi.js";
+import WebSocket from "ws";
+import { startRelay } from "../server/relay.mjs";
+import type { CanvasView } from "../src/canvas/CanvasView";
+import { getQuadItem, TextCardData, TextCardProperties } from "../src/canvas/types";
+import { DrawingModel, ItemChange } from "../src/DrawingData/DrawingModel";
+import { emptyDoc } from "../src/Notecard/richText";
+import { compareStamps, ItemCrdt, ItemOp } from "../src/sync/crdt";
+import type { ClientMessage, RelayMessage } from "../src/sync/protocol";
+import { SyncClient } from "../src/sync/SyncClient";
+
+let relay: ReturnType<typeof startRelay>;
+let url = "";
+
+before(async () => {
+    relay = startRelay(0);
+    await new Promise((resolve) => relay.once("listening", resolve));
+    url = `ws://localhost:${(relay.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise((resolve) => relay.close(resolve)));
+
+/** A replica: the ops of the relay are received in order, and the winners applied to `items`. */
+class TestClient {
+    readonly crdt: ItemCrdt;
+    readonly items = new Map<string, ItemChange>();
+    private socket: WebSocket;
+    private inbox: RelayMessage[] = [];
+    private waiting: (() => void) | null = null;
+
+    private constructor(clientId: string, socket: WebSocket) {
+        this.crdt = new ItemCrdt(clientId);
+        this.socket = socket;
+        socket.on("message", (raw) => {
+            this.inbox.push(JSON.parse(raw.toString()));
+            this.waiting?.();
+        });
+    }
+
+    /** Joins `room` and applies the room's state the relay answers with. */
+    static async join(room: string, clientId: string): Promise<TestClient> {
+        const socket = new WebSocket(url);
+        await new Promise((resolve, reject) => socket.once("open", resolve).once("error", reject));
+        const client = new TestClient(clientId, socket);
+        client.send({ type: "hello", room, clientId });
+        await client.receiveOps();
+        return client;
+    }
+
+    /** A change made on this client: stamped, applied locally and sent. */
+    edit(change: ItemChange): ItemOp {
+        const op = this.crdt.local(change);
+        this.apply(op);
+        return op;
+    }
+
+    send(msg: ClientMessage): void {
+        this.socket.send(JSON.stringify(msg));
+    }
+
+    /** Waits for the next batch of ops from the relay and applies the ones that win. */
+    async receiveOps(): Promise<void> {
+        for (;;) {
+            const msg = this.inbox.shift();
+            if (msg?.type === "ops") {
+                for (const op of this.crdt.receive(msg.ops)) this.apply(op);
+                return;
+            }
+            if (!msg) await new Promise<void>((resolve) => (this.waiting = resolve));
+        }
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve) => {
+            this.socket.once("close", () => resolve());
+            this.socket.close();
+        });
+    }
+
+    private apply({ stamp, ...change }: ItemOp): void {
+        this.items.set(change.type === "put" ? change.item.id : change.id, change);
+    }
+}
+
+const cardItem = (id: string, title: string): TextCardProperties => ({
+    id,
+    x: 0,
+    y: 0,
+    width: 200,
+    height: 100,
+    data: { type: "text-card", zoom: { zoomExp: 0, localScale: 1 }, title, doc: emptyDoc(), htmlString: "" },
+});
+
+const card = (id: string, title: string): ItemChange => ({ type: "put", table: "textCards", item: cardItem(id, title) });
+
+const titleOf = (client: TestClient, id: string) => {
+    const change = client.items.get(id);
+    return change?.type === "put" && change.item.data.type === "text-card" ? change.item.data.title : undefined;
+};
+
+for (const first of ["a", "b"] as const) {
+    test(`concurrent edits of one item converge by Lamport stamp when ${first} reaches the relay first`, async () => {
+        const room = `race-${first}`;
+        const a = await TestClient.join(room, "a");
+        const b = await TestClient.join(room, "b");
+
+        // Both at time 1: the tie goes to the greater client id, b
+        const opA = a.edit(card("card1", "from a"));
+        const opB = b.edit(card("card1", "from b"));
+        assert.deepEqual([opA.stamp, opB.stamp], [{ t: 1, c: "a" }, { t: 1, c: "b" }]);
+        const [sender, other] = first === "a" ? [[a, opA], [b, opB]] as const : [[b, opB], [a, opA]] as const;
+        sender[0].send({ type: "ops", ops: [sender[1]] });
+        await other[0].receiveOps();
+        other[0].send({ type: "ops", ops: [other[1]] });
+        await sender[0].receiveOps();
+        assert.equal(titleOf(a, "card1"), "from b");
+        assert.equal(titleOf(b, "card1"), "from b");
+
+        // a edits twice before hearing of b's edit: its later stamp wins over b's greater id
+        a.edit(card("card2", "a, first"));
+        const opA2 = a.edit(card("card2", "a, second"));
+        const opB2 = b.edit(card("card2", "b"));
+        assert.ok(compareStamps(opA2.stamp, opB2.stamp) > 0);
+        const [s2, o2] = first === "a" ? [[a, opA2], [b, opB2]] as const : [[b, opB2], [a, opA2]] as const;
+        s2[0].send({ type: "ops", ops: [s2[1]] });
+        await o2[0].receiveOps();
+        o2[0].send({ type: "ops", ops: [o2[1]] });
+        await s2[0].receiveOps();
+        assert.equal(titleOf(a, "card2"), "a, second");
+        assert.equal(titleOf(b, "card2"), "a, second");
+
+        // A deletion later than every write removes it for both
+        const del = b.edit({ type: "delete", table: "textCards", id: "card1" });
+        b.send({ type: "ops", ops: [del] });
+        await a.receiveOps();
+        assert.equal(a.items.get("card1")?.type, "delete");
+        assert.deepEqual(a.items, b.items);
+
+        // A late joiner gets the room's winning ops from the relay alone
+        const late = await TestClient.join(room, "c");
+        assert.deepEqual(late.items, a.items);
+        assert.equal(titleOf(late, "card2"), "a, second");
+        // and writes after everything it was sent
+        assert.ok(late.edit(card("card2", "c")).stamp.t > opA2.stamp.t);
+
+        await Promise.all([a.close(), b.close(), late.close()]);
+    });
+}
+
+/** Waits up to two seconds for `check` to hold. */
+async function eventually(check: () => boolean, what: string): Promise<void> {
+    for (let i = 0; i < 200 && !check(); i++) await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.ok(check(), what);
+}
+
+test("SyncClient applies the room's ops to its DrawingModel and skips records that fail validation", async (t) => {
+    // What SyncClient and the cards use of the browser and of the view: sockets, events, HTML and a camera
+    const { window } = new JSDOM("");
+    Object.assign(globalThis, { WebSocket, document: window.document, DOMParser: window.DOMParser, Node: window.Node });
+    const view = { ready: new Promise(() => {}), app: {}, world: new Container(), drawState: { active: false } } as unknown as CanvasView;
+    const openModel = async (dbName: string) => {
+        const model = new DrawingModel({ id: "shared-board", name: "shared", dbName, seed: 1, camera: null, createdAt: 0 });
+        await model.ready;
+        return model;
+    };
+    const [modelA, modelB] = await Promise.all([openModel("sync-a"), openModel("sync-b")]);
+    const a = new SyncClient(url, modelA, view, "A");
+    const b = new SyncClient(url, modelB, view, "B");
+    t.after(() => {
+        a.close();
+        b.close();
+    });
+    const titleIn = (model: DrawingModel) => {
+        const item = model.getItem("card1");
+        return item?.data.type === "text-card" ? item.data.title : undefined;
+    };
+
+    await modelA.addTextCard(getQuadItem(cardItem("card1", "first")));
+    await eventually(() => titleIn(modelB) === "first", "card reached the other model");
+
+    // An older or broken client sends a card without its document, which wins by stamp
+    const peer = await TestClient.join("shared-board", "z");
+    t.after(() => peer.close());
+    const malformed = { ...peer.edit(card("card1", "no doc")), stamp: { t: 100, c: "z" } };
+    if (malformed.type === "put") delete (malformed.item.data as Partial<TextCardData>).doc;
+    // and in the same batch, a valid card after it
+    const valid = peer.edit(card("card2", "from z"));
+    const warn = mock.method(console, "warn", () => {});
+    const error = mock.method(console, "error", () => {});
+    peer.send({ type: "ops", ops: [malformed, valid] });
+    await eventually(() => modelA.getItem("card2") !== undefined && modelB.getItem("card2") !== undefined, "the valid card applied");
+    warn.mock.restore();
+    error.mock.restore();
+    assert.equal(warn.mock.callCount(), 2);
+    assert.match(String(warn.mock.calls[0].arguments[0]), /malformed doc/);
+    assert.equal(error.mock.callCount(), 0);
+    assert.equal(titleIn(modelA), "first");
+    assert.equal(titleIn(modelB), "first");
+    // The next write wins over it, and is still applied
+    await modelA.updateTextCard("card1", { title: "second" });
+    await eventually(() => titleIn(modelB) === "second", "a later edit still applies");
+    const stored = modelB.getItem("card1");
+    assert.ok(stored?.data.type === "text-card" && stored.data.doc.blocks.length === 0);
+});